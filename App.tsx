@@ -8,7 +8,11 @@ import PipelineTab from './components/tabs/PipelineTab';
 import DashboardTab from './components/tabs/DashboardTab';
 import ReportsTab from './components/tabs/ReportsTab';
 import ChatTab from './components/tabs/ChatTab';
-import { FileText, Settings, Play, LayoutDashboard, Download, MessageSquare } from 'lucide-react';
+import HistoryTab from './components/tabs/HistoryTab';
+import BatchTab from './components/tabs/BatchTab';
+import ComparatorTab from './components/tabs/ComparatorTab';
+import EvalTab from './components/tabs/EvalTab';
+import { FileText, Settings, Play, LayoutDashboard, Download, MessageSquare, History, Layers, GitCompare, FlaskConical } from 'lucide-react';
 import { ANIMAL_THEMES } from './constants';
 import type { Tab } from './types';
 
@@ -17,8 +21,12 @@ const TABS: Tab[] = [
   { id: 'upload', label: 'Upload & Parse', icon: FileText },
   { id: 'config', label: 'Agent Configuration', icon: Settings },
   { id: 'pipeline', label: 'Agent Pipeline', icon: Play },
+  { id: 'batch', label: 'Batch', icon: Layers },
+  { id: 'compare', label: 'Comparator', icon: GitCompare },
+  { id: 'evals', label: 'Evals', icon: FlaskConical },
   { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
   { id: 'reports', label: 'Reports', icon: Download },
+  { id: 'history', label: 'History', icon: History },
   { id: 'chat', label: 'Chat', icon: MessageSquare },
 ];
 
@@ -34,10 +42,18 @@ const AppContent: React.FC = () => {
         return <AgentConfigTab />;
       case 'pipeline':
         return <PipelineTab />;
+      case 'batch':
+        return <BatchTab onOpenRun={() => setActiveTab('pipeline')} />;
+      case 'compare':
+        return <ComparatorTab />;
+      case 'evals':
+        return <EvalTab />;
       case 'dashboard':
         return <DashboardTab />;
       case 'reports':
         return <ReportsTab />;
+      case 'history':
+        return <HistoryTab onOpenRun={() => setActiveTab('pipeline')} />;
       case 'chat':
         return <ChatTab />;
       default:
@@ -1,9 +1,14 @@
 
-import React, { createContext, useState, useEffect, ReactNode } from 'react';
-import type { Agent, PipelineResult, ApiKeys, Translation } from './types';
+import React, { createContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
+import type { Agent, AgentsConfig, PipelineResult, ApiKeys, Translation, ProviderHealth, OcrJob, RunRecord } from './types';
 import { DEFAULT_SAMPLE_AGENTS, TRANSLATIONS } from './constants';
+import { createEmptyApiKeys, listProviders, setProviderBaseUrl } from './services/providers';
+import { checkProviderHealth } from './services/healthService';
+import { applyPipeline, getPipeline, getPipelineAgentIds } from './services/pipelineDefinitionService';
 import yaml from 'js-yaml';
 
+const HEALTH_CHECK_DEBOUNCE_MS = 800;
+
 interface AppContextType {
   themeMode: 'light' | 'dark';
   setThemeMode: (mode: 'light' | 'dark') => void;
@@ -14,23 +19,46 @@ interface AppContextType {
   t: (key: keyof Translation['en']) => string;
   apiKeys: ApiKeys;
   setApiKeys: React.Dispatch<React.SetStateAction<ApiKeys>>;
-  providerHealth: Record<string, 'OK' | 'Error' | 'Not Configured'>;
-  setProviderHealth: React.Dispatch<React.SetStateAction<Record<string, 'OK' | 'Error' | 'Not Configured'>>>;
+  providerBaseUrls: Record<string, string>;
+  setProviderBaseUrls: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  providerHealth: Record<string, ProviderHealth>;
+  checkHealth: (providerId: string) => Promise<void>;
   
   parsedText: string;
   setParsedText: (text: string) => void;
   
-  agentsConfig: { version: number; agents: Agent[] };
-  setAgentsConfig: (config: { version: number; agents: Agent[] }) => void;
+  agentsConfig: AgentsConfig;
+  setAgentsConfig: (config: AgentsConfig) => void;
   updateAgent: (updatedAgent: Agent) => void;
 
   selectedAgentIds: string[];
   setSelectedAgentIds: React.Dispatch<React.SetStateAction<string[]>>;
 
+  // The agents.yaml pipeline last selected; its step overrides apply to runs until another is chosen.
+  activePipelineId: string | null;
+  selectPipeline: (pipelineId: string | null) => void;
+  // agentsConfig with the active pipeline's overrides applied: what runs execute and history records.
+  runConfig: AgentsConfig;
+
   pipelineResults: PipelineResult[];
   setPipelineResults: React.Dispatch<React.SetStateAction<PipelineResult[]>>;
   updateSinglePipelineResult: (result: PipelineResult) => void;
   clearPipelineResults: () => void;
+
+  ocrJobs: OcrJob[];
+  addOcrJob: (job: OcrJob) => void;
+
+  runVariables: Record<string, string>;
+  setRunVariables: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+
+  reviewerName: string;
+  setReviewerName: (name: string) => void;
+
+  // The saved run the current results belong to; edits and re-runs are saved back into it.
+  activeRun: { id: string; started_at: number } | null;
+  setActiveRun: (run: { id: string; started_at: number } | null) => void;
+  // Asks before replacing an agents config that differs from the run's; false when the user declines.
+  loadRun: (run: RunRecord) => boolean;
 }
 
 export const AppContext = createContext<AppContextType>(null!);
@@ -39,16 +67,18 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [themeMode, setThemeMode] = useState<'light' | 'dark'>('dark');
   const [themeStyle, setThemeStyle] = useState<string>('Ferrari');
   const [language, setLanguage] = useState<'en' | 'zh'>('en');
-  const [apiKeys, setApiKeys] = useState<ApiKeys>({ gemini: '', openai: '' });
-  const [providerHealth, setProviderHealth] = useState<Record<string, 'OK' | 'Error' | 'Not Configured'>>({
-      gemini: 'Not Configured',
-      openai: 'Not Configured',
-  });
+  const [apiKeys, setApiKeys] = useState<ApiKeys>(createEmptyApiKeys);
+  const [providerBaseUrls, setProviderBaseUrls] = useState<Record<string, string>>({});
+  const [providerHealth, setProviderHealth] = useState<Record<string, ProviderHealth>>(() =>
+      Object.fromEntries(listProviders().map(p => [p.id, { status: 'Not Configured' } as ProviderHealth]))
+  );
+  // Key and base URL each provider was last probed with, so typing elsewhere does not re-probe it.
+  const probedSettingsRef = useRef<Record<string, string>>({});
   
   const [parsedText, setParsedText] = useState<string>('');
-  const [agentsConfig, setAgentsConfig] = useState<{ version: number; agents: Agent[] }>(() => {
+  const [agentsConfig, setAgentsConfig] = useState<AgentsConfig>(() => {
     try {
-      const parsed = yaml.load(DEFAULT_SAMPLE_AGENTS) as { version: number; agents: Agent[] };
+      const parsed = yaml.load(DEFAULT_SAMPLE_AGENTS) as AgentsConfig;
       return parsed || { version: 1, agents: [] };
     } catch (e) {
       console.error("Failed to parse default agents YAML:", e);
@@ -57,7 +87,44 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   });
 
   const [selectedAgentIds, setSelectedAgentIds] = useState<string[]>([]);
+  const [activePipelineId, setActivePipelineId] = useState<string | null>(null);
   const [pipelineResults, setPipelineResults] = useState<PipelineResult[]>([]);
+  const [ocrJobs, setOcrJobs] = useState<OcrJob[]>([]);
+  const [runVariables, setRunVariables] = useState<Record<string, string>>({});
+  const [reviewerName, setReviewerName] = useState<string>('');
+  const [activeRun, setActiveRun] = useState<{ id: string; started_at: number } | null>(null);
+
+  useEffect(() => {
+    Object.keys(providerBaseUrls).forEach(id => setProviderBaseUrl(id, providerBaseUrls[id]));
+  }, [providerBaseUrls]);
+
+  const checkHealth = async (providerId: string) => {
+    setProviderHealth(prev => ({ ...prev, [providerId]: { ...prev[providerId], status: 'Checking' } }));
+    const health = await checkProviderHealth(providerId, apiKeys);
+    setProviderHealth(prev => ({ ...prev, [providerId]: health }));
+  };
+
+  // Probe automatically when a key is entered or an endpoint changes; keyless
+  // endpoints are only probed once the user sets a URL (or clicks Check).
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      listProviders().forEach(provider => {
+        const settings = `${apiKeys[provider.id] || ''}|${providerBaseUrls[provider.id] || ''}`;
+        if (probedSettingsRef.current[provider.id] === settings) return;
+        probedSettingsRef.current[provider.id] = settings;
+        const configured = provider.requiresApiKey
+          ? !!apiKeys[provider.id]
+          : provider.defaultBaseUrl === undefined || !!providerBaseUrls[provider.id];
+        if (configured) {
+          checkHealth(provider.id);
+        } else {
+          setProviderHealth(prev => ({ ...prev, [provider.id]: { status: 'Not Configured' } }));
+        }
+      });
+    }, HEALTH_CHECK_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiKeys, providerBaseUrls]);
 
   useEffect(() => {
     document.documentElement.classList.toggle('dark', themeMode === 'dark');
@@ -94,20 +161,56 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setPipelineResults([]);
   }
 
+  const addOcrJob = (job: OcrJob) => {
+    setOcrJobs(prev => [...prev, job]);
+  };
+
+  const runConfig = useMemo(() => applyPipeline(agentsConfig, getPipeline(agentsConfig, activePipelineId)), [agentsConfig, activePipelineId]);
+
+  const selectPipeline = (pipelineId: string | null) => {
+    setActivePipelineId(pipelineId);
+    const pipeline = getPipeline(agentsConfig, pipelineId);
+    if (pipeline) {
+      setSelectedAgentIds(getPipelineAgentIds(pipeline).filter(id => agentsConfig.agents.some(agent => agent.id === id)));
+      setRunVariables(pipeline.variables || {});
+    }
+  };
+
+  const loadRun = (run: RunRecord) => {
+    const replacesConfig = JSON.stringify(run.agents_config) !== JSON.stringify(agentsConfig);
+    if (replacesConfig && !window.confirm('Opening this run replaces the current agent configuration with the one it ran with. Unsaved changes to the configuration will be lost. Continue?')) return false;
+    // The saved config already has the run's pipeline overrides applied.
+    setAgentsConfig(run.agents_config);
+    setActivePipelineId(null);
+    setSelectedAgentIds(run.selected_agent_ids);
+    setParsedText(run.document);
+    setRunVariables(run.run_variables);
+    setPipelineResults(run.results);
+    setOcrJobs(run.ocr_jobs);
+    setActiveRun({ id: run.id, started_at: run.started_at });
+    return true;
+  };
+
   const value = {
     themeMode, setThemeMode,
     themeStyle, setThemeStyle,
     language, setLanguage,
     t,
     apiKeys, setApiKeys,
-    providerHealth, setProviderHealth,
+    providerBaseUrls, setProviderBaseUrls,
+    providerHealth, checkHealth,
     parsedText, setParsedText,
     agentsConfig, setAgentsConfig,
     updateAgent,
     selectedAgentIds, setSelectedAgentIds,
+    activePipelineId, selectPipeline, runConfig,
     pipelineResults, setPipelineResults,
     updateSinglePipelineResult,
-    clearPipelineResults
+    clearPipelineResults,
+    ocrJobs, addOcrJob,
+    runVariables, setRunVariables,
+    reviewerName, setReviewerName,
+    activeRun, setActiveRun, loadRun
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
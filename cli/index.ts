@@ -0,0 +1,292 @@
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import type { Agent, AgentsConfig, EvalCase, EvalRun, PipelineResult } from '../types';
+import { createEmptyApiKeys, listProviders, setProviderBaseUrl } from '../services/providers';
+import { createPendingResults, runPipeline } from '../services/pipelineService';
+import { extractPdfText, parsePlainText, setPdfLib } from '../services/parsingService';
+import { generateCsvReport, generateJsonReport, generateMarkdownReport } from '../services/reportService';
+import { buildDependencyMap, validateDependencies } from '../services/dagService';
+import { getMissingRunVariables, validateTemplates } from '../services/templateService';
+import { validateConditions } from '../services/conditionService';
+import { validateTransforms } from '../services/transformService';
+import { loadFixtures } from '../services/fixtureService';
+import { validateTools } from '../services/toolService';
+import { applyPipeline, getPipelineAgentIds, validatePipelines } from '../services/pipelineDefinitionService';
+import { getEvalTrends, runEvalSuite, summarizeEvalRun, validateEvals } from '../services/evalService';
+import { validateEnsembles } from '../services/ensembleService';
+
+// Exit codes: 0 when every step completed or was skipped, 1 when a document or step (or, with
+// --eval, a case) failed, 2 for usage or configuration errors (nothing was run), 130 when interrupted.
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: npm run cli -- --config agents.yaml [options] <file>...
+       npm run cli -- --config agents.yaml --eval [options]
+
+Runs the agents in agents.yaml against each file (PDF or text) and writes
+report.md, report.json and report.csv to <out>/<file name>/.
+
+With --eval, runs the config's eval cases instead, prints each agent's pass rate
+by prompt version and appends the run to <out>/eval-history.jsonl.
+
+Options:
+  -c, --config <file>         agents.yaml to run (required)
+  -p, --pipeline <id>         run a pipeline from the config's pipelines section
+  -a, --agents <ids>          comma-separated agent ids, in run order (default: the pipeline's steps, else enabled agents);
+                              with --eval, only the cases for these agents
+      --eval                  run the eval cases in agents.yaml
+  -o, --out <dir>             report directory (default: ./reports)
+      --var <name=value>      run variable, overriding the pipeline's value; repeat for several
+      --provider <id>         run every agent on this provider, ignoring fallbacks (e.g. mock, openai_compatible)
+      --model <name>          model to use with --provider
+      --base-url <id=url>     override a provider's base URL; repeat for several
+      --fixtures <file>       load recorded fixtures for the mock provider
+      --approve-as <name>     approve steps that require approval under this name
+  -h, --help                  show this help
+
+API keys are read from <PROVIDER>_API_KEY environment variables, e.g. OPENAI_API_KEY.`;
+
+class UsageError extends Error {}
+
+function parseAssignments(values: string[], flag: string): Record<string, string> {
+    return Object.fromEntries(values.map(value => {
+        const index = value.indexOf('=');
+        if (index <= 0) throw new UsageError(`${flag} expects name=value, got "${value}".`);
+        return [value.slice(0, index), value.slice(index + 1)];
+    }));
+}
+
+// Keys come from the environment; read by name at runtime so a build never inlines them.
+function readApiKeys() {
+    const apiKeys = createEmptyApiKeys();
+    listProviders().forEach(provider => {
+        apiKeys[provider.id] = process.env[`${provider.id.toUpperCase()}_API_KEY`] || '';
+    });
+    return apiKeys;
+}
+
+async function loadConfig(file: string): Promise<AgentsConfig> {
+    const config = yaml.load(await readFile(file, 'utf8')) as AgentsConfig;
+    if (!config || !Array.isArray(config.agents)) throw new UsageError(`${file}: invalid YAML structure, expected an "agents" list.`);
+    return config;
+}
+
+function overrideProvider(config: AgentsConfig, providerOverride?: string, modelOverride?: string): AgentsConfig {
+    if (!providerOverride) return config;
+    if (!listProviders().some(p => p.id === providerOverride)) throw new UsageError(`Unknown provider: ${providerOverride}`);
+    const override = <T extends { provider: string; name: string }>(model: T): T => ({ ...model, provider: providerOverride, name: modelOverride || model.name });
+    const overrideEnsemble = (ensemble: Agent['ensemble']) => ensemble && {
+        ...ensemble,
+        models: ensemble.models.map(override),
+        judge: ensemble.judge && { ...ensemble.judge, model: override(ensemble.judge.model) },
+    };
+    return {
+        ...config,
+        agents: config.agents.map(agent => ({ ...agent, model: override(agent.model), fallbacks: undefined, ensemble: overrideEnsemble(agent.ensemble) })),
+        evals: config.evals && {
+            judge_model: config.evals.judge_model && override(config.evals.judge_model),
+            cases: config.evals.cases.map(evalCase => evalCase.judge?.model ? { ...evalCase, judge: { ...evalCase.judge, model: override(evalCase.judge.model) } } : evalCase),
+        },
+    };
+}
+
+async function readDocument(file: string): Promise<string> {
+    const data = await readFile(file);
+    const name = path.basename(file);
+    if (name.toLowerCase().endsWith('.pdf')) {
+        return extractPdfText(new File([data], name, { type: 'application/pdf' }));
+    }
+    return parsePlainText(new File([data], name));
+}
+
+async function runDocument(
+    file: string,
+    config: AgentsConfig,
+    selectedAgentIds: string[],
+    options: { apiKeys: ReturnType<typeof readApiKeys>; variables: Record<string, string>; approveAs?: string; outDir: string; signal: AbortSignal }
+): Promise<PipelineResult[]> {
+    const name = path.basename(file);
+    const document = await readDocument(file);
+    let results = createPendingResults(config.agents, selectedAgentIds);
+    const publish = (result: PipelineResult) => {
+        const previous = results.find(r => r.agent_id === result.agent_id);
+        results = results.map(r => r.agent_id === result.agent_id ? result : r);
+        if (previous?.status !== result.status) {
+            const detail = result.status === 'error' ? `: ${result.error}` : result.status === 'skipped' ? `: ${result.skip_reason}` : '';
+            console.error(`[${name}] ${result.agent_id} ${result.status}${detail}`);
+        }
+    };
+
+    await runPipeline({
+        config,
+        selectedAgentIds,
+        document,
+        apiKeys: options.apiKeys,
+        variables: options.variables,
+        getResults: () => results,
+        publish,
+    }, {
+        signal: options.signal,
+        waitForApproval: options.approveAs ? async agentId => {
+            const result = results.find(r => r.agent_id === agentId)!;
+            publish({ ...result, awaiting_approval: undefined, approval: { by: options.approveAs!, at: Date.now() } });
+        } : undefined,
+    });
+
+    const reportDir = path.join(options.outDir, name);
+    await mkdir(reportDir, { recursive: true });
+    await writeFile(path.join(reportDir, 'report.md'), generateMarkdownReport(results, [], `AI Agent Pipeline Report: ${name}`));
+    await writeFile(path.join(reportDir, 'report.json'), generateJsonReport(results, []));
+    await writeFile(path.join(reportDir, 'report.csv'), generateCsvReport(results, []));
+    console.error(`[${name}] reports written to ${reportDir}`);
+    return results;
+}
+
+async function readEvalHistory(file: string): Promise<EvalRun[]> {
+    try {
+        return (await readFile(file, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+    } catch (e) {
+        if ((e as { code?: string }).code === 'ENOENT') return [];
+        throw e;
+    }
+}
+
+// Runs the eval cases one by one, then prints every evaluated agent's pass rate per prompt version
+// across this and earlier runs recorded in the history file.
+async function runEvals(
+    config: AgentsConfig,
+    configFile: string,
+    agentIds: string[] | undefined,
+    options: { apiKeys: ReturnType<typeof readApiKeys>; outDir: string; signal: AbortSignal }
+): Promise<number> {
+    const cases = (config.evals?.cases || []).filter(evalCase => !agentIds || agentIds.includes(evalCase.agent));
+    if (cases.length === 0) throw new UsageError('No eval cases to run; add an evals section to agents.yaml.');
+    const baseDir = path.dirname(configFile);
+
+    const run = await runEvalSuite(config, cases, options.apiKeys, {
+        signal: options.signal,
+        loadDocument: (evalCase: EvalCase) => readDocument(path.resolve(baseDir, evalCase.document_file!)),
+        onResult: result => {
+            console.error(`[${result.agent_id}] ${result.case_id} ${result.passed ? 'PASS' : 'FAIL'}${result.error ? `: ${result.error}` : ''}`);
+            result.checks.filter(check => !check.passed).forEach(check => {
+                console.error(`    failed: ${check.label}${check.detail ? ` (${check.detail})` : ''}`);
+            });
+        },
+    });
+
+    const historyFile = path.join(options.outDir, 'eval-history.jsonl');
+    await mkdir(options.outDir, { recursive: true });
+    const history = [...await readEvalHistory(historyFile), run];
+    await writeFile(path.join(options.outDir, 'eval-results.json'), JSON.stringify(run, null, 2));
+    await writeFile(historyFile, history.map(r => JSON.stringify(r)).join('\n') + '\n');
+
+    const trends = getEvalTrends(history);
+    summarizeEvalRun(run).forEach(summary => {
+        console.log(`${summary.agent_id} @ ${summary.prompt_version}: ${summary.passed}/${summary.total} passed`);
+        trends[summary.agent_id].forEach(trend => {
+            const rates = trend.runs.map(r => `${r.passed}/${r.total}`).join(' ');
+            console.log(`    ${trend.prompt_version === summary.prompt_version ? '*' : ' '} ${trend.prompt_version} (since ${new Date(trend.first_run_at).toISOString().slice(0, 10)}): ${rates}`);
+        });
+    });
+    console.error(`Eval results written to ${options.outDir}`);
+    if (options.signal.aborted) return EXIT_INTERRUPTED;
+    return run.results.every(result => result.passed) ? 0 : EXIT_FAILED;
+}
+
+async function main(): Promise<number> {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', short: 'c' },
+            pipeline: { type: 'string', short: 'p' },
+            agents: { type: 'string', short: 'a' },
+            out: { type: 'string', short: 'o', default: 'reports' },
+            var: { type: 'string', multiple: true, default: [] },
+            provider: { type: 'string' },
+            model: { type: 'string' },
+            'base-url': { type: 'string', multiple: true, default: [] },
+            fixtures: { type: 'string' },
+            'approve-as': { type: 'string' },
+            eval: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!values.config) throw new UsageError('A --config file is required.');
+    if (!values.eval && positionals.length === 0) throw new UsageError('At least one input file is required.');
+    if (values.model && !values.provider) throw new UsageError('--model requires --provider.');
+
+    Object.entries(parseAssignments(values['base-url'], '--base-url')).forEach(([id, url]) => setProviderBaseUrl(id, url));
+    if (values.fixtures) {
+        const count = loadFixtures(JSON.parse(await readFile(values.fixtures, 'utf8')));
+        console.error(`Loaded ${count} fixture(s) from ${values.fixtures}`);
+    }
+
+    const baseConfig = await loadConfig(values.config);
+    const pipeline = values.pipeline ? baseConfig.pipelines?.find(p => p.id === values.pipeline) : undefined;
+    if (values.pipeline && !pipeline) throw new UsageError(`Unknown pipeline: ${values.pipeline}`);
+    const config = overrideProvider(applyPipeline(baseConfig, pipeline), values.provider, values.model);
+    const variables = { ...pipeline?.variables, ...parseAssignments(values.var, '--var') };
+    const agentIds = values.agents?.split(',').map(id => id.trim()).filter(Boolean);
+    const selectedAgentIds = agentIds
+        || (pipeline ? getPipelineAgentIds(pipeline) : config.agents.filter(agent => agent.enabled !== false).map(agent => agent.id));
+    const unknown = selectedAgentIds.filter(id => !config.agents.some(agent => agent.id === id));
+    if (unknown.length > 0) throw new UsageError(`Unknown agent id(s): ${unknown.join(', ')}`);
+    if (selectedAgentIds.length === 0) throw new UsageError('No agents selected.');
+    // Eval cases carry their own variables, and each runs just its agent and that agent's inputs.
+    const problems = values.eval ? [] : [
+        ...validateDependencies(buildDependencyMap(config.agents, selectedAgentIds)),
+        ...getMissingRunVariables(config.variables, variables).map(v => `Run variable required: --var ${v.name}=...`),
+    ];
+    if (problems.length > 0) throw new UsageError(problems.join('\n'));
+    [
+        ...validateTemplates(config), ...validateConditions(config), ...validateTransforms(config), ...validatePipelines(baseConfig), ...validateTools(config), ...validateEnsembles(config),
+        ...(values.eval ? validateEvals(config) : []),
+    ].forEach(issue => console.error(`Warning: ${issue}`));
+
+    // The legacy build runs in Node without a DOM; its worker is loaded in-process.
+    const pdfjs: any = await import('pdfjs-dist/legacy/build/pdf.js');
+    setPdfLib(pdfjs.default || pdfjs);
+
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
+
+    if (values.eval) {
+        return runEvals(config, values.config, agentIds, { apiKeys: readApiKeys(), outDir: values.out, signal: controller.signal });
+    }
+
+    let failed = false;
+    for (const file of positionals) {
+        if (controller.signal.aborted) break;
+        try {
+            const results = await runDocument(file, config, selectedAgentIds, {
+                apiKeys: readApiKeys(),
+                variables,
+                approveAs: values['approve-as'],
+                outDir: values.out,
+                signal: controller.signal,
+            });
+            if (results.some(r => r.status !== 'completed' && r.status !== 'skipped')) failed = true;
+        } catch (e) {
+            console.error(`[${path.basename(file)}] ${e instanceof Error ? e.message : String(e)}`);
+            failed = true;
+        }
+    }
+    if (controller.signal.aborted) return EXIT_INTERRUPTED;
+    return failed ? EXIT_FAILED : 0;
+}
+
+// Per-document failures are handled inside main, so anything that escapes is a usage or config error.
+main().then(code => {
+    process.exitCode = code;
+}, e => {
+    console.error(e instanceof Error ? e.message : String(e));
+    if (e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) console.error(`\n${USAGE}`);
+    process.exitCode = EXIT_USAGE;
+});
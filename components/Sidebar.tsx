@@ -1,8 +1,10 @@
 
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { AppContext } from '../AppContext';
 import { ANIMAL_THEMES } from '../constants';
-import { Sun, Moon, Languages, KeyRound, CheckCircle, XCircle, HelpCircle } from 'lucide-react';
+import { listProviders } from '../services/providers';
+import { Sun, Moon, Languages, KeyRound, UserCheck, CheckCircle, XCircle, HelpCircle, Circle, Download, Upload, RefreshCw, Loader2 } from 'lucide-react';
+import { clearFixtures, exportFixtures, getFixtureCount, isRecording, loadFixtures, onFixturesChanged, setRecording } from '../services/fixtureService';
 
 const Sidebar: React.FC = () => {
   const {
@@ -11,15 +13,55 @@ const Sidebar: React.FC = () => {
     language, setLanguage,
     t,
     apiKeys, setApiKeys,
-    providerHealth
+    providerBaseUrls, setProviderBaseUrls,
+    providerHealth, checkHealth,
+    reviewerName, setReviewerName
   } = useContext(AppContext);
 
+  const providers = listProviders();
+
+  const [fixtureCount, setFixtureCount] = useState(getFixtureCount());
+  const [recording, setRecordingState] = useState(isRecording());
+  useEffect(() => onFixturesChanged(() => {
+    setFixtureCount(getFixtureCount());
+    setRecordingState(isRecording());
+  }), []);
+
+  const handleFixtureUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        loadFixtures(JSON.parse(e.target?.result as string));
+      } catch (error) {
+        console.error("Failed to load fixture file", error);
+        alert(`Failed to load fixture file: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const handleFixtureDownload = () => {
+    const blob = new Blob([JSON.stringify(exportFixtures(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'fixtures.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const theme = ANIMAL_THEMES[themeStyle] || ANIMAL_THEMES['Ferrari'];
 
   const HealthIcon = ({ status }: { status: string }) => {
     switch (status) {
       case 'OK': return <CheckCircle className="h-5 w-5 text-green-500" />;
       case 'Error': return <XCircle className="h-5 w-5 text-red-500" />;
+      case 'Checking': return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
       default: return <HelpCircle className="h-5 w-5 text-yellow-500" />;
     }
   };
@@ -64,50 +106,116 @@ const Sidebar: React.FC = () => {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider flex items-center"><UserCheck className="h-4 w-4 mr-2"/>{t('reviewer')}</h3>
+        <input
+          type="text"
+          placeholder="Name recorded on edits and approvals"
+          value={reviewerName}
+          onChange={(e) => setReviewerName(e.target.value)}
+          className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+        />
+      </div>
+
       <div className="space-y-2">
         <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider flex items-center"><KeyRound className="h-4 w-4 mr-2"/>{t('api_keys')}</h3>
-        <div className="space-y-2">
-          <label className="text-sm font-medium block">Gemini API Key</label>
-          <input
-            type="password"
-            placeholder="Enter Gemini API Key"
-            value={apiKeys.gemini}
-            onChange={(e) => setApiKeys(prev => ({...prev, gemini: e.target.value}))}
-            className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
-          />
-        </div>
-        <div className="space-y-2">
-          <label className="text-sm font-medium block">OpenAI API Key</label>
-          <input
-            type="password"
-            placeholder="Enter OpenAI API Key"
-            value={apiKeys.openai}
-            onChange={(e) => setApiKeys(prev => ({...prev, openai: e.target.value}))}
-            className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
-          />
-        </div>
+        {providers.map(provider => (
+          <div key={provider.id} className="space-y-2">
+            {provider.requiresApiKey && (
+              <>
+                <label className="text-sm font-medium block">{provider.label} API Key</label>
+                <input
+                  type="password"
+                  placeholder={`Enter ${provider.label} API Key`}
+                  value={apiKeys[provider.id] || ''}
+                  onChange={(e) => setApiKeys(prev => ({...prev, [provider.id]: e.target.value}))}
+                  className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+                />
+              </>
+            )}
+            {provider.defaultBaseUrl !== undefined && (
+              <>
+                <label className="text-sm font-medium block">{provider.label} Base URL</label>
+                <input
+                  type="text"
+                  placeholder={provider.defaultBaseUrl || 'https://<resource>.openai.azure.com'}
+                  value={providerBaseUrls[provider.id] || ''}
+                  onChange={(e) => setProviderBaseUrls(prev => ({...prev, [provider.id]: e.target.value}))}
+                  className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+                />
+              </>
+            )}
+          </div>
+        ))}
       </div>
 
        <div className="space-y-2">
-        <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Provider Health</h3>
-        <ul className="space-y-2 text-sm">
-            <li className="flex items-center justify-between">
-                <span>Gemini</span>
-                <div className="flex items-center space-x-2">
-                  <span>{providerHealth.gemini}</span>
-                  <HealthIcon status={providerHealth.gemini} />
-                </div>
-            </li>
-            <li className="flex items-center justify-between">
-                <span>OpenAI</span>
-                 <div className="flex items-center space-x-2">
-                  <span>{providerHealth.openai}</span>
-                  <HealthIcon status={providerHealth.openai} />
-                </div>
-            </li>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Provider Health</h3>
+          <button onClick={() => providers.forEach(provider => checkHealth(provider.id))} className="text-xs text-blue-500 hover:underline">Check all</button>
+        </div>
+        <ul className="space-y-3 text-sm">
+            {providers.map(provider => {
+              const health = providerHealth[provider.id] || { status: 'Not Configured' };
+              return (
+                <li key={provider.id}>
+                    <div className="flex items-center justify-between">
+                      <span>{provider.label}</span>
+                      <div className="flex items-center space-x-2">
+                        <button onClick={() => checkHealth(provider.id)} disabled={health.status === 'Checking'} title="Check now" className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 disabled:opacity-50">
+                          <RefreshCw className="h-4 w-4" />
+                        </button>
+                        <span title={health.status}><HealthIcon status={health.status} /></span>
+                      </div>
+                    </div>
+                    {health.checked_at && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {health.latency_ms !== undefined && `${health.latency_ms} ms`}
+                        {health.models && ` · ${health.models.length} model(s)`}
+                        {` · ${new Date(health.checked_at).toLocaleTimeString()}`}
+                      </p>
+                    )}
+                    {health.error && <p className="text-xs text-red-500 break-words">{health.error}</p>}
+                    {health.models && health.models.length > 0 && (
+                      <details className="text-xs text-gray-500 dark:text-gray-400">
+                        <summary className="cursor-pointer">Models</summary>
+                        <ul className="mt-1 max-h-32 overflow-y-auto font-mono">
+                          {health.models.map(model => <li key={model}>{model}</li>)}
+                        </ul>
+                      </details>
+                    )}
+                </li>
+              );
+            })}
         </ul>
       </div>
 
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Mock Fixtures</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Record real responses, then select the Mock provider to replay them offline. {fixtureCount} fixture(s) loaded.
+        </p>
+        <button
+          onClick={() => setRecording(!recording)}
+          className={`w-full flex items-center justify-center space-x-2 text-sm py-1 px-2 rounded-md border ${recording ? 'bg-red-600 text-white border-red-600' : 'dark:border-zinc-600'}`}
+        >
+          <Circle className={`h-3 w-3 ${recording ? 'fill-current animate-pulse' : ''}`} />
+          <span>{recording ? 'Recording...' : 'Record'}</span>
+        </button>
+        <div className="flex space-x-2">
+          <label htmlFor="fixture-upload" className="flex-1 flex items-center justify-center space-x-1 text-sm py-1 px-2 rounded-md border dark:border-zinc-600 cursor-pointer">
+            <Upload className="h-4 w-4" /><span>Load</span>
+            <input id="fixture-upload" type="file" accept=".json" className="sr-only" onChange={handleFixtureUpload} />
+          </label>
+          <button onClick={handleFixtureDownload} disabled={fixtureCount === 0} className="flex-1 flex items-center justify-center space-x-1 text-sm py-1 px-2 rounded-md border dark:border-zinc-600 disabled:opacity-50">
+            <Download className="h-4 w-4" /><span>Export</span>
+          </button>
+        </div>
+        {fixtureCount > 0 && (
+          <button onClick={clearFixtures} className="w-full text-xs text-gray-500 hover:text-red-500">Clear fixtures</button>
+        )}
+      </div>
+
       <div className="mt-auto text-center text-xs text-gray-400 dark:text-gray-500">
         <p>AI Agent Pipeline v1.0</p>
       </div>
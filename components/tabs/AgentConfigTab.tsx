@@ -1,15 +1,35 @@
 
-import React, { useContext } from 'react';
+import React, { useContext, useEffect, useMemo, useState } from 'react';
 import { AppContext } from '../../AppContext';
-import type { Agent } from '../../types';
-import { SlidersHorizontal, ChevronDown, ChevronUp, Upload } from 'lucide-react';
+import type { Agent, AgentsConfig, InputTransform } from '../../types';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Upload, AlertTriangle } from 'lucide-react';
 import yaml from 'js-yaml';
+import { listProviders } from '../../services/providers';
+import { isModelAvailable } from '../../services/healthService';
+import { DOCUMENT_INPUT } from '../../services/dagService';
+import { validateTemplates } from '../../services/templateService';
+import { validateConditions } from '../../services/conditionService';
+import { validateTransforms } from '../../services/transformService';
+import { validatePipelines } from '../../services/pipelineDefinitionService';
+import { BUILT_IN_TOOL_NAMES, validateTools } from '../../services/toolService';
+import { validateComparator } from '../../services/comparatorService';
+import { validateEvals } from '../../services/evalService';
+import { validateEnsembles } from '../../services/ensembleService';
 
+const PROVIDER_BADGE_CLASSES: Record<string, string> = {
+    gemini: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    openai: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    anthropic: 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300',
+};
+const DEFAULT_BADGE_CLASS = 'bg-gray-100 text-gray-800 dark:bg-zinc-700 dark:text-gray-300';
 
 const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: string, selected: boolean) => void }> = ({ agent, isSelected, onSelect }) => {
-    const { updateAgent } = useContext(AppContext);
+    const { updateAgent, providerHealth, agentsConfig } = useContext(AppContext);
     const [isExpanded, setIsExpanded] = React.useState(false);
 
+    const health = providerHealth[agent.model.provider];
+    const modelMissing = isModelAvailable(health, agent.model.name) === false;
+
     const handleInputChange = (field: keyof Agent['model'], value: any) => {
         const updatedAgent = {
             ...agent,
@@ -21,6 +41,21 @@ const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: st
         updateAgent(updatedAgent);
     };
 
+    const toggleInput = (source: string, checked: boolean) => {
+        const inputs = (agent.inputs || []).filter(input => input !== source);
+        updateAgent({ ...agent, inputs: checked ? [...inputs, source] : inputs });
+    };
+
+    const toggleTool = (name: string, checked: boolean) => {
+        const tools = (agent.tools || []).filter(tool => tool !== name);
+        updateAgent({ ...agent, tools: checked ? [...tools, name] : tools.length > 0 ? tools : undefined });
+    };
+
+    const inputSources = [
+        { id: DOCUMENT_INPUT, name: 'Source document' },
+        ...agentsConfig.agents.filter(a => a.id !== agent.id).map(a => ({ id: a.id, name: a.name })),
+    ];
+
     const handlePromptChange = (value: string) => {
         updateAgent({ ...agent, prompt: value });
     };
@@ -44,7 +79,12 @@ const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: st
                     </div>
                 </div>
                 <div className="flex items-center space-x-4">
-                     <span className={`text-xs px-2 py-1 rounded-full ${agent.model.provider === 'gemini' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300' : 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300'}`}>
+                     {modelMissing && (
+                        <span title={`Model "${agent.model.name}" is not available to the configured ${agent.model.provider} key`}>
+                            <AlertTriangle size={18} className="text-yellow-500" />
+                        </span>
+                     )}
+                     <span className={`text-xs px-2 py-1 rounded-full ${PROVIDER_BADGE_CLASSES[agent.model.provider] || DEFAULT_BADGE_CLASS}`}>
                         {agent.model.provider}
                     </span>
                     {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
@@ -59,13 +99,20 @@ const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: st
                                 <label className="text-sm font-medium">Provider</label>
                                 <select value={agent.model.provider} onChange={(e) => handleInputChange('provider', e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
                                     <option value="auto">Auto</option>
-                                    <option value="gemini">Gemini</option>
-                                    <option value="openai">OpenAI</option>
+                                    {listProviders().map(provider => (
+                                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                    ))}
                                 </select>
                             </div>
                              <div>
                                 <label className="text-sm font-medium">Model Name</label>
-                                <input type="text" value={agent.model.name} onChange={(e) => handleInputChange('name', e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"/>
+                                <input type="text" list={`models-${agent.id}`} value={agent.model.name} onChange={(e) => handleInputChange('name', e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"/>
+                                <datalist id={`models-${agent.id}`}>
+                                    {(health?.models || []).map(model => <option key={model} value={model} />)}
+                                </datalist>
+                                {modelMissing && (
+                                    <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">Not in the model list returned by the last health check.</p>
+                                )}
                             </div>
                              <div>
                                 <label className="text-sm font-medium">Max Tokens</label>
@@ -77,6 +124,85 @@ const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: st
                             </div>
                         </div>
                     </div>
+                    <div>
+                        <h4 className="font-semibold mb-2">Inputs</h4>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                            {agent.inputs && agent.inputs.length > 0 ? 'Several inputs are combined under headings.' : 'None selected: uses the previous step\'s output (or the document for the first step).'}
+                        </p>
+                        <div className="flex flex-wrap gap-4">
+                            {inputSources.map(source => (
+                                <label key={source.id} className="flex items-center space-x-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={(agent.inputs || []).includes(source.id)}
+                                        onChange={(e) => toggleInput(source.id, e.target.checked)}
+                                        className="h-4 w-4 rounded text-blue-600 border-gray-300 dark:border-zinc-600 bg-gray-100 dark:bg-zinc-700"
+                                    />
+                                    <span>{source.name}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold mb-2">Input Transforms</h4>
+                        <InputTransformsEditor agent={agent} onChange={(input_transforms) => updateAgent({ ...agent, input_transforms })} />
+                    </div>
+                    <div>
+                        <h4 className="font-semibold mb-2">Tools</h4>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">The model may call these while answering; each call is logged on the step.</p>
+                        <div className="flex flex-wrap gap-4">
+                            {BUILT_IN_TOOL_NAMES.map(name => (
+                                <label key={name} className="flex items-center space-x-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={(agent.tools || []).includes(name)}
+                                        onChange={(e) => toggleTool(name, e.target.checked)}
+                                        className="h-4 w-4 rounded text-blue-600 border-gray-300 dark:border-zinc-600 bg-gray-100 dark:bg-zinc-700"
+                                    />
+                                    <span className="font-mono">{name}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold mb-2">Run Condition</h4>
+                        <input
+                            type="text"
+                            value={agent.when || ''}
+                            placeholder='Always runs. e.g. steps.compliance_checker.output matches "FAIL"'
+                            onChange={(e) => updateAgent({ ...agent, when: e.target.value || undefined })}
+                            className="w-full p-2 bg-white dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm font-mono"
+                        />
+                        <label className="flex items-center space-x-2 text-sm mt-2">
+                            <input
+                                type="checkbox"
+                                checked={!!agent.requires_approval}
+                                onChange={(e) => updateAgent({ ...agent, requires_approval: e.target.checked || undefined })}
+                                className="h-4 w-4 rounded text-blue-600 border-gray-300 dark:border-zinc-600 bg-gray-100 dark:bg-zinc-700"
+                            />
+                            <span>Require reviewer approval before dependent steps run</span>
+                        </label>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold mb-2">On Error</h4>
+                        <select
+                            value={agent.on_error || 'stop'}
+                            onChange={(e) => updateAgent({ ...agent, on_error: e.target.value === 'stop' ? undefined : e.target.value as Agent['on_error'] })}
+                            className="w-full p-2 bg-white dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+                        >
+                            <option value="stop">Stop: do not run dependent steps</option>
+                            <option value="continue">Continue: run dependents with an empty output</option>
+                            <option value="fallback">Fallback: run dependents with a fixed output</option>
+                        </select>
+                        {agent.on_error === 'fallback' && (
+                            <textarea
+                                value={agent.fallback_output || ''}
+                                placeholder="Output passed on when this step fails"
+                                onChange={(e) => updateAgent({ ...agent, fallback_output: e.target.value })}
+                                className="w-full h-20 p-2 mt-2 border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50 text-sm font-mono"
+                            />
+                        )}
+                    </div>
                     <div>
                         <h4 className="font-semibold mb-2">System Prompt</h4>
                         <textarea 
@@ -91,8 +217,44 @@ const AgentCard: React.FC<{ agent: Agent, isSelected: boolean, onSelect: (id: st
     );
 };
 
+// YAML list of InputTransform, applied when the textarea loses focus.
+const InputTransformsEditor: React.FC<{ agent: Agent; onChange: (transforms: InputTransform[] | undefined) => void }> = ({ agent, onChange }) => {
+    const serialized = agent.input_transforms && agent.input_transforms.length > 0 ? yaml.dump(agent.input_transforms) : '';
+    const [text, setText] = useState(serialized);
+    const [error, setError] = useState('');
+
+    useEffect(() => setText(serialized), [serialized]);
+
+    const apply = () => {
+        try {
+            const parsed = text.trim() ? yaml.load(text) : undefined;
+            if (parsed !== undefined && !Array.isArray(parsed)) throw new Error('Expected a list of transforms');
+            setError('');
+            onChange(parsed && parsed.length > 0 ? parsed as InputTransform[] : undefined);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={apply}
+                placeholder={'- source: evidence_extractor\n  json_path: adverse_events\n- truncate: 20000'}
+                className="w-full h-24 p-2 border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50 text-sm font-mono"
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+};
+
 const AgentConfigTab: React.FC = () => {
     const { agentsConfig, setAgentsConfig, selectedAgentIds, setSelectedAgentIds, t } = useContext(AppContext);
+
+    // Recomputed on every load and edit, so problems show as soon as agents.yaml is uploaded.
+    const templateIssues = useMemo(() => [...validateTemplates(agentsConfig), ...validateConditions(agentsConfig), ...validateTransforms(agentsConfig), ...validatePipelines(agentsConfig), ...validateTools(agentsConfig), ...validateComparator(agentsConfig), ...validateEvals(agentsConfig), ...validateEnsembles(agentsConfig)], [agentsConfig]);
     
     const handleSelectAgent = (id: string, selected: boolean) => {
         setSelectedAgentIds(prev =>
@@ -107,7 +269,7 @@ const AgentConfigTab: React.FC = () => {
             reader.onload = (e) => {
                 try {
                     const content = e.target?.result as string;
-                    const newConfig = yaml.load(content) as { version: number, agents: Agent[] };
+                    const newConfig = yaml.load(content) as AgentsConfig;
                     if (newConfig && newConfig.agents && Array.isArray(newConfig.agents)) {
                         setAgentsConfig(newConfig);
                     } else {
@@ -132,6 +294,14 @@ const AgentConfigTab: React.FC = () => {
                     <input id="yaml-upload" type="file" accept=".yaml,.yml" className="sr-only" onChange={handleFileUpload} />
                 </label>
             </div>
+            {templateIssues.length > 0 && (
+                <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 text-sm">
+                    <p className="font-semibold flex items-center space-x-2"><AlertTriangle size={16} /><span>Problems in prompt variables, conditions, input transforms, pipelines, tools, ensembles, the comparator or evals</span></p>
+                    <ul className="list-disc ml-5 mt-1 font-mono text-xs">
+                        {templateIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+                    </ul>
+                </div>
+            )}
             {agentsConfig.agents.length > 0 ? (
                 <div className="space-y-4">
                     {agentsConfig.agents.map(agent => (
@@ -0,0 +1,193 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { AppContext } from '../../AppContext';
+import type { BatchJob, BatchJobStatus, OcrSettings } from '../../types';
+import {
+    clearBatch, enqueueBatch, exportBatchArchive, getBatchJobs, getBatchState, onBatchChanged,
+    pauseBatch, removeBatchJob, requeueFailedJobs, resumeBatch, startBatch, stopBatch,
+} from '../../services/batchService';
+import { getRun, summarizeResults } from '../../services/historyService';
+import { buildDependencyMap, validateDependencies } from '../../services/dagService';
+import { getMissingRunVariables } from '../../services/templateService';
+import { downloadFile } from '../../services/reportService';
+import { formatCost } from '../../services/costService';
+import { listProviders } from '../../services/providers';
+import { DEFAULT_BATCH_CONCURRENCY } from '../../constants';
+import { Upload, Play, Pause, Square, Download, Trash2, FolderOpen, RotateCcw, X } from 'lucide-react';
+
+const JOB_STATUS_CLASSES: Record<BatchJobStatus, string> = {
+    queued: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    parsing: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    completed: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    awaiting_approval: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+};
+
+const BatchTab: React.FC<{ onOpenRun: () => void }> = ({ onOpenRun }) => {
+    const { runConfig, selectedAgentIds, apiKeys, runVariables, loadRun } = useContext(AppContext);
+    const [jobs, setJobs] = useState<BatchJob[]>(getBatchJobs);
+    const [state, setState] = useState(getBatchState);
+    const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+    const visionProviders = listProviders().filter(p => p.defaultVisionModel);
+    const [ocr, setOcr] = useState<OcrSettings>({ method: 'standard', provider: 'gemini', model: visionProviders.find(p => p.id === 'gemini')?.defaultVisionModel || '' });
+    const [error, setError] = useState('');
+
+    useEffect(() => onBatchChanged(() => {
+        setJobs(getBatchJobs());
+        setState(getBatchState());
+    }), []);
+
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files) enqueueBatch(Array.from(event.target.files));
+        event.target.value = '';
+    };
+
+    const handleStart = () => {
+        const problems = validateDependencies(buildDependencyMap(runConfig.agents, selectedAgentIds));
+        const missingVariables = getMissingRunVariables(runConfig.variables, runVariables);
+        if (selectedAgentIds.length === 0) {
+            setError("Select agents in the 'Agent Configuration' tab first.");
+        } else if (problems.length > 0) {
+            setError(`The pipeline's inputs cannot be resolved: ${problems.join(' ')}`);
+        } else if (missingVariables.length > 0) {
+            setError(`Set the required run variable(s) in the Pipeline tab first: ${missingVariables.map(v => v.label || v.name).join(', ')}`);
+        } else {
+            setError('');
+            startBatch({ config: runConfig, selectedAgentIds, apiKeys, variables: runVariables, ocr, concurrency });
+        }
+    };
+
+    const handleOpen = async (job: BatchJob) => {
+        const run = job.run_id && await getRun(job.run_id);
+        if (!run) {
+            setError(`The saved run for ${job.file_name} could not be found in history.`);
+            return;
+        }
+        if (loadRun(run)) onOpenRun();
+    };
+
+    const finished = jobs.filter(job => job.finished_at).length;
+    const hasRetryable = jobs.some(job => job.status === 'error' || job.status === 'cancelled');
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-4">
+                <h2 className="text-xl font-bold">Batch Processing</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Each file is parsed on its own and run through the {selectedAgentIds.length} selected agent(s). Finished documents are saved to History.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="text-sm font-medium">Documents in parallel</label>
+                        <input type="number" min={1} max={10} value={concurrency} onChange={(e) => setConcurrency(Math.max(1, parseInt(e.target.value) || 1))} disabled={state !== 'idle'} className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm" />
+                    </div>
+                    <div>
+                        <label className="text-sm font-medium">PDF OCR Method</label>
+                        <select value={ocr.method} onChange={(e) => setOcr(prev => ({ ...prev, method: e.target.value as OcrSettings['method'] }))} disabled={state !== 'idle'} className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                            <option value="standard">Standard (Fast)</option>
+                            <option value="advanced">Advanced (LLM)</option>
+                        </select>
+                    </div>
+                    {ocr.method === 'advanced' && (
+                        <div>
+                            <label className="text-sm font-medium">Vision Model</label>
+                            <select value={ocr.provider} onChange={(e) => setOcr(prev => ({ ...prev, provider: e.target.value, model: visionProviders.find(p => p.id === e.target.value)?.defaultVisionModel || '' }))} disabled={state !== 'idle'} className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                                {visionProviders.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label} ({provider.defaultVisionModel})</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <label className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600 cursor-pointer">
+                        <Upload size={14} /><span>Add files</span>
+                        <input type="file" multiple className="sr-only" onChange={handleFiles} />
+                    </label>
+                    {state === 'idle' && (
+                        <button onClick={handleStart} disabled={!jobs.some(job => job.status === 'queued')} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
+                            <Play size={14} /><span>Start</span>
+                        </button>
+                    )}
+                    {state === 'running' && (
+                        <button onClick={pauseBatch} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-amber-500 text-white hover:bg-amber-600">
+                            <Pause size={14} /><span>Pause</span>
+                        </button>
+                    )}
+                    {state === 'paused' && (
+                        <button onClick={resumeBatch} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700">
+                            <Play size={14} /><span>Resume</span>
+                        </button>
+                    )}
+                    {state !== 'idle' && (
+                        <button onClick={stopBatch} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-red-600 text-white hover:bg-red-700">
+                            <Square size={14} /><span>Stop</span>
+                        </button>
+                    )}
+                    {hasRetryable && (
+                        <button onClick={requeueFailedJobs} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600">
+                            <RotateCcw size={14} /><span>Retry failed</span>
+                        </button>
+                    )}
+                    <button onClick={() => downloadFile(exportBatchArchive(jobs), `batch-reports-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip')} disabled={finished === 0} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400">
+                        <Download size={14} /><span>Export all reports (.zip)</span>
+                    </button>
+                    <button onClick={clearBatch} disabled={state !== 'idle' || jobs.length === 0} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600 text-red-600 disabled:text-gray-400">
+                        <Trash2 size={14} /><span>Clear</span>
+                    </button>
+                </div>
+                {state === 'paused' && <p className="text-sm text-amber-600 dark:text-amber-400">Paused: documents already running will finish; no new document starts until you resume.</p>}
+                {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+
+            {jobs.length > 0 && (
+                <div className="bg-white dark:bg-zinc-800/50 rounded-lg shadow-md overflow-x-auto">
+                    <p className="p-3 text-sm text-gray-500 dark:text-gray-400">{finished} of {jobs.length} document(s) finished</p>
+                    <table className="w-full text-sm">
+                        <thead className="text-left text-gray-500 dark:text-gray-400">
+                            <tr>
+                                <th className="p-3">Document</th>
+                                <th className="p-3">Status</th>
+                                <th className="p-3">Steps</th>
+                                <th className="p-3">Tokens</th>
+                                <th className="p-3">Cost</th>
+                                <th className="p-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {jobs.map(job => {
+                                const summary = summarizeResults(job.results);
+                                const ocrCost = job.ocr_jobs.reduce((sum, o) => sum + (o.cost || 0), 0);
+                                return (
+                                    <tr key={job.id} className="border-t border-gray-200 dark:border-zinc-700">
+                                        <td className="p-3">{job.file_name}</td>
+                                        <td className="p-3">
+                                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${JOB_STATUS_CLASSES[job.status]}`}>{job.status.replace('_', ' ')}</span>
+                                            {job.progress_text && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{job.progress_text}</p>}
+                                            {job.error && <p className="mt-1 text-xs text-red-500">{job.error}</p>}
+                                        </td>
+                                        <td className="p-3">
+                                            {summary.steps > 0 && `${summary.completed + summary.skipped}/${summary.steps}`}
+                                            {summary.error > 0 && <span className="text-red-500"> ({summary.error} failed)</span>}
+                                        </td>
+                                        <td className="p-3">{summary.steps > 0 && (summary.prompt_tokens + summary.completion_tokens).toLocaleString()}</td>
+                                        <td className="p-3">{summary.steps > 0 && formatCost(summary.cost + ocrCost)}</td>
+                                        <td className="p-3 flex space-x-2 justify-end">
+                                            {job.run_id && <button onClick={() => handleOpen(job)} title="Open in Pipeline and Reports" className="text-blue-500 hover:text-blue-700"><FolderOpen size={16} /></button>}
+                                            {(job.status === 'queued' || (state === 'idle' && job.finished_at)) && (
+                                                <button onClick={() => removeBatchJob(job.id)} title="Remove from batch" className="text-gray-500 hover:text-red-600"><X size={16} /></button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchTab;
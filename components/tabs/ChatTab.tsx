@@ -1,9 +1,10 @@
 
 import React, { useState, useContext, useRef, useEffect } from 'react';
 import { AppContext } from '../../AppContext';
-import { getOpenAIChatCompletion } from '../../services/llmService';
+import { getChatCompletion, isAbortError } from '../../services/llmService';
+import { getProvider, listProviders } from '../../services/providers';
 import type { ChatMessage } from '../../types';
-import { Send, User, Bot, Loader } from 'lucide-react';
+import { Send, User, Bot, Loader, Square } from 'lucide-react';
 import { ANIMAL_THEMES } from '../../constants';
 
 
@@ -43,8 +44,11 @@ const ChatTab: React.FC = () => {
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [chatProvider, setChatProvider] = useState<string>('openai');
+    const providerLabel = getProvider(chatProvider).label;
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -61,18 +65,25 @@ const ChatTab: React.FC = () => {
         setInput('');
         setIsLoading(true);
         setError(null);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         try {
-            if (!apiKeys.openai) {
-                throw new Error("OpenAI API Key is not set. Please add it in the settings sidebar.");
+            if (getProvider(chatProvider).requiresApiKey && !apiKeys[chatProvider]) {
+                throw new Error(`${providerLabel} API Key is not set. Please add it in the settings sidebar.`);
             }
-            const assistantResponse = await getOpenAIChatCompletion(newMessages, apiKeys.openai);
+            const assistantResponse = await getChatCompletion(newMessages, chatProvider, apiKeys, undefined, controller.signal);
             setMessages(prev => [...prev, { role: 'assistant', content: assistantResponse }]);
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
-            setError(errorMessage);
+            if (isAbortError(e)) {
+                setInput(newUserMessage.content); // give the stopped message back for editing
+            } else {
+                const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
+                setError(errorMessage);
+            }
              setMessages(prev => [...prev.slice(0, -1)]); // remove user message if api call fails
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
@@ -85,11 +96,27 @@ const ChatTab: React.FC = () => {
 
     return (
         <div className="flex flex-col h-[calc(100vh-200px)] max-w-4xl mx-auto bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700">
+            <div className="p-4 border-b border-gray-200 dark:border-zinc-700 flex items-center justify-end space-x-2">
+                <label htmlFor="chat-provider" className="text-sm font-medium">Provider</label>
+                <select
+                    id="chat-provider"
+                    value={chatProvider}
+                    onChange={(e) => setChatProvider(e.target.value)}
+                    disabled={isLoading}
+                    className="p-2 bg-gray-100 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+                >
+                    {listProviders().map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.label}</option>
+                    ))}
+                </select>
+            </div>
             <div className="flex-1 p-6 space-y-6 overflow-y-auto">
                 {messages.length === 0 && (
                     <div className="text-center text-gray-500 dark:text-gray-400">
-                        <p>Start a new chat with OpenAI.</p>
-                        <p className="text-xs mt-2">Make sure your OpenAI API key is set in the sidebar.</p>
+                        <p>Start a new chat with {providerLabel}.</p>
+                        {getProvider(chatProvider).requiresApiKey && (
+                            <p className="text-xs mt-2">Make sure your {providerLabel} API key is set in the sidebar.</p>
+                        )}
                     </div>
                 )}
                 {messages.map((msg, index) => (
@@ -123,13 +150,23 @@ const ChatTab: React.FC = () => {
                         className="flex-1 p-2 bg-gray-100 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                         disabled={isLoading}
                     />
-                    <button
-                        onClick={handleSendMessage}
-                        disabled={isLoading || !input.trim()}
-                        className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
-                    >
-                        <Send size={20} />
-                    </button>
+                    {isLoading ? (
+                        <button
+                            onClick={() => abortControllerRef.current?.abort()}
+                            title="Stop"
+                            className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                        >
+                            <Square size={20} />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleSendMessage}
+                            disabled={!input.trim()}
+                            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                        >
+                            <Send size={20} />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,253 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { AppContext } from '../../AppContext';
+import type { ComparisonResult, ComparisonSlot, ComparisonSlotStatus, EquivalenceAssessment, OcrSettings } from '../../types';
+import {
+    addPredicateSlot, getComparison, getComparisonCategories, getComparisonProblems, getComparisonSlots, getSlotLabel,
+    isComparisonRunning, loadSlotFiles, onComparisonChanged, removeSlot, setSlotLabel, startComparison, stopComparison,
+} from '../../services/comparatorService';
+import { downloadFile, generateComparisonCsv, generateComparisonJson, generateComparisonMarkdown } from '../../services/reportService';
+import { summarizeResults } from '../../services/historyService';
+import { getMissingRunVariables } from '../../services/templateService';
+import { formatCost } from '../../services/costService';
+import { listProviders } from '../../services/providers';
+import { Upload, Play, Square, Download, Plus, X, RotateCcw } from 'lucide-react';
+
+const SLOT_STATUS_CLASSES: Record<ComparisonSlotStatus, string> = {
+    empty: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    parsing: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    ready: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    completed: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+};
+
+const ASSESSMENT_CLASSES: Record<EquivalenceAssessment, string> = {
+    same: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    similar: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    different: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    not_provided: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const SlotCard: React.FC<{ slot: ComparisonSlot; running: boolean; removable: boolean; onFiles: (files: File[]) => void }> = ({ slot, running, removable, onFiles }) => {
+    const summary = summarizeResults(slot.results);
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files?.length) onFiles(Array.from(event.target.files));
+        event.target.value = '';
+    };
+
+    return (
+        <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className={`px-2 py-1 text-xs font-bold rounded-full ${slot.role === 'subject' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}`}>
+                    {slot.role === 'subject' ? 'Subject device' : 'Predicate'}
+                </span>
+                <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${SLOT_STATUS_CLASSES[slot.status]}`}>{slot.status}</span>
+                    {removable && <button onClick={() => removeSlot(slot.id)} disabled={running} title="Remove predicate" className="text-gray-500 hover:text-red-600 disabled:text-gray-300"><X size={16} /></button>}
+                </div>
+            </div>
+            <input type="text" value={slot.label} onChange={(e) => setSlotLabel(slot.id, e.target.value)} placeholder={getSlotLabel(slot)} disabled={running} className="w-full p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm" />
+            <label className={`flex items-center space-x-1 py-2 px-3 text-sm font-medium rounded-lg border dark:border-zinc-600 ${running ? 'text-gray-400' : 'cursor-pointer'}`}>
+                <Upload size={14} /><span className="truncate">{slot.file_names.length > 0 ? slot.file_names.join(', ') : 'Upload documents'}</span>
+                <input type="file" multiple className="sr-only" disabled={running || slot.status === 'parsing'} onChange={handleFiles} />
+            </label>
+            {slot.document && <p className="text-xs text-gray-500 dark:text-gray-400">{slot.document.length.toLocaleString()} characters</p>}
+            {slot.progress_text && <p className="text-xs text-gray-500 dark:text-gray-400">{slot.progress_text}</p>}
+            {summary.steps > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Steps {summary.completed + summary.skipped}/{summary.steps}
+                    {summary.error > 0 && <span className="text-red-500"> ({summary.error} failed)</span>}
+                    {' · '}{formatCost(summary.cost)}
+                </p>
+            )}
+            {slot.error && <p className="text-xs text-red-500">{slot.error}</p>}
+        </div>
+    );
+};
+
+const ComparatorTab: React.FC = () => {
+    const { runConfig, selectedAgentIds, apiKeys, runVariables } = useContext(AppContext);
+    const [slots, setSlots] = useState<ComparisonSlot[]>(getComparisonSlots);
+    const [comparison, setComparison] = useState<ComparisonResult | null>(getComparison);
+    const [running, setRunning] = useState(isComparisonRunning);
+    const [agentIds, setAgentIds] = useState<string[]>(() => runConfig.comparator?.agents ?? selectedAgentIds);
+    const visionProviders = listProviders().filter(p => p.defaultVisionModel);
+    const [ocr, setOcr] = useState<OcrSettings>({ method: 'standard', provider: 'gemini', model: visionProviders.find(p => p.id === 'gemini')?.defaultVisionModel || '' });
+    const [error, setError] = useState('');
+
+    useEffect(() => onComparisonChanged(() => {
+        setSlots(getComparisonSlots());
+        setComparison(getComparison());
+        setRunning(isComparisonRunning());
+    }), []);
+
+    const toggleAgent = (id: string) => {
+        setAgentIds(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+    };
+
+    const handleRun = (runAgents: boolean) => {
+        // Agents keep their configured order, as on the Agent Configuration tab.
+        const orderedIds = runConfig.agents.filter(agent => agentIds.includes(agent.id)).map(agent => agent.id);
+        const problems = getComparisonProblems(runConfig, orderedIds, runAgents);
+        const slotVariable = runConfig.comparator?.slot_variable;
+        const missingVariables = getMissingRunVariables(runConfig.variables, runVariables).filter(v => v.name !== slotVariable);
+        if (problems.length > 0) {
+            setError(problems.join(' '));
+        } else if (runAgents && missingVariables.length > 0) {
+            setError(`Set the required run variable(s) in the Pipeline tab first: ${missingVariables.map(v => v.label || v.name).join(', ')}`);
+        } else {
+            setError('');
+            startComparison({ config: runConfig, agentIds: orderedIds, apiKeys, variables: runVariables, runAgents });
+        }
+    };
+
+    if (!runConfig.comparator) {
+        return (
+            <div className="max-w-6xl mx-auto p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md text-center">
+                <h2 className="text-xl font-bold mb-2">Predicate Comparison</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Add a <code>comparator</code> section to agents.yaml in the Agent Configuration tab to compare a subject device with its predicates.</p>
+            </div>
+        );
+    }
+
+    const predicateCount = slots.filter(slot => slot.role === 'predicate').length;
+    const columns = comparison?.columns ?? slots.map(getSlotLabel);
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-4">
+                <h2 className="text-xl font-bold">{runConfig.comparator.name || 'Predicate Comparison'}</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    The extraction agents run on each device's documents, then the comparator builds a substantial-equivalence table for: {getComparisonCategories(runConfig).join(', ')}.
+                </p>
+                <div>
+                    <label className="text-sm font-medium">Extraction agents</label>
+                    <div className="mt-1 flex flex-wrap gap-3">
+                        {runConfig.agents.map(agent => (
+                            <label key={agent.id} className="flex items-center space-x-1 text-sm">
+                                <input type="checkbox" checked={agentIds.includes(agent.id)} onChange={() => toggleAgent(agent.id)} disabled={running} />
+                                <span>{agent.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {agentIds.length === 0 && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">With no agents, the comparator reads the documents directly.</p>}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="text-sm font-medium">PDF OCR Method</label>
+                        <select value={ocr.method} onChange={(e) => setOcr(prev => ({ ...prev, method: e.target.value as OcrSettings['method'] }))} className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                            <option value="standard">Standard (Fast)</option>
+                            <option value="advanced">Advanced (LLM)</option>
+                        </select>
+                    </div>
+                    {ocr.method === 'advanced' && (
+                        <div>
+                            <label className="text-sm font-medium">Vision Model</label>
+                            <select value={ocr.provider} onChange={(e) => setOcr(prev => ({ ...prev, provider: e.target.value, model: visionProviders.find(p => p.id === e.target.value)?.defaultVisionModel || '' }))} className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                                {visionProviders.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label} ({provider.defaultVisionModel})</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {slots.map(slot => (
+                    <SlotCard
+                        key={slot.id}
+                        slot={slot}
+                        running={running}
+                        removable={slot.role === 'predicate' && predicateCount > 1}
+                        onFiles={(files) => loadSlotFiles(slot.id, files, ocr, apiKeys, runConfig)}
+                    />
+                ))}
+                <button onClick={addPredicateSlot} disabled={running} className="flex items-center justify-center space-x-1 p-4 text-sm font-medium rounded-lg border-2 border-dashed border-gray-300 dark:border-zinc-600 text-gray-500 hover:text-gray-700 disabled:text-gray-300">
+                    <Plus size={16} /><span>Add predicate</span>
+                </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {!running ? (
+                    <>
+                        <button onClick={() => handleRun(true)} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700">
+                            <Play size={14} /><span>Run comparison</span>
+                        </button>
+                        {slots.every(slot => slot.results.length > 0) && (
+                            <button onClick={() => handleRun(false)} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600">
+                                <RotateCcw size={14} /><span>Re-run comparator only</span>
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <button onClick={stopComparison} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-red-600 text-white hover:bg-red-700">
+                        <Square size={14} /><span>Stop</span>
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {comparison && (
+                <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <h3 className="text-lg font-bold">Substantial Equivalence</h3>
+                        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+                            {comparison.status === 'running' && <span>Comparing…</span>}
+                            {comparison.status === 'cancelled' && <span className="text-yellow-600">Cancelled</span>}
+                            {comparison.cost !== undefined && <span>{formatCost(comparison.cost)} · {comparison.model}</span>}
+                        </div>
+                    </div>
+                    {comparison.error && <p className="text-sm text-red-500">{comparison.error}</p>}
+                    {comparison.validation_errors?.length ? <p className="text-sm text-amber-600 dark:text-amber-400">Schema issues: {comparison.validation_errors.join('; ')}</p> : null}
+                    {comparison.rows.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead className="text-left text-gray-500 dark:text-gray-400">
+                                    <tr>
+                                        <th className="p-2">Category</th>
+                                        {columns.map((column, i) => <th key={i} className="p-2">{column}{i === 0 && ' (subject)'}</th>)}
+                                        <th className="p-2">Assessment</th>
+                                        <th className="p-2">Notes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {comparison.rows.map((row, index) => (
+                                        <tr key={index} className="border-t border-gray-200 dark:border-zinc-700 align-top">
+                                            <td className="p-2 font-medium">{row.category}</td>
+                                            <td className="p-2 whitespace-pre-wrap">{row.subject}</td>
+                                            {columns.slice(1).map((_, i) => <td key={i} className="p-2 whitespace-pre-wrap">{row.predicates[i]}</td>)}
+                                            <td className="p-2">
+                                                <span className={`px-2 py-1 text-xs font-medium rounded-full ${ASSESSMENT_CLASSES[row.assessment] || ASSESSMENT_CLASSES.not_provided}`}>{row.assessment.replace('_', ' ')}</span>
+                                            </td>
+                                            <td className="p-2 text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{row.notes}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : comparison.output && (
+                        <pre className="p-3 bg-gray-50 dark:bg-zinc-900 rounded-md text-xs whitespace-pre-wrap max-h-64 overflow-y-auto">{comparison.output}</pre>
+                    )}
+                    {comparison.conclusion && <p className="text-sm"><span className="font-bold">Conclusion:</span> {comparison.conclusion}</p>}
+                    {comparison.status === 'completed' && (
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => downloadFile(generateComparisonMarkdown(comparison, slots), 'comparison.md', 'text/markdown')} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+                                <Download size={14} /><span>Markdown</span>
+                            </button>
+                            <button onClick={() => downloadFile(generateComparisonCsv(comparison), 'comparison.csv', 'text/csv')} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+                                <Download size={14} /><span>CSV</span>
+                            </button>
+                            <button onClick={() => downloadFile(generateComparisonJson(comparison, slots), 'comparison.json', 'application/json')} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+                                <Download size={14} /><span>JSON</span>
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ComparatorTab;
@@ -1,6 +1,9 @@
 
 import React, { useContext, useMemo } from 'react';
 import { AppContext } from '../../AppContext';
+import type { PipelineResult } from '../../types';
+import { buildDependencyMap, DOCUMENT_INPUT, getDependencyLevels, validateDependencies } from '../../services/dagService';
+import { estimateTokens, formatCost } from '../../services/costService';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, Line } from 'recharts';
 
 const KPICard: React.FC<{ title: string; value: string | number; color: string }> = ({ title, value, color }) => (
@@ -10,53 +13,160 @@ const KPICard: React.FC<{ title: string; value: string | number; color: string }
     </div>
 );
 
+const STATUS_CLASSES: Record<PipelineResult['status'], string> = {
+    pending: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    completed: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    skipped: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-400',
+};
+
+const summarizeField = (value: unknown): string => {
+    if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+    if (value === null || value === undefined) return '—';
+    if (typeof value === 'object') return `${Object.keys(value).length} field(s)`;
+    const text = String(value);
+    return text.length > 80 ? `${text.substring(0, 80)}...` : text;
+};
+
+const StructuredOutputs: React.FC<{ results: PipelineResult[] }> = ({ results }) => {
+    const structured = results.filter(r => r.structured_output && typeof r.structured_output === 'object' && !Array.isArray(r.structured_output));
+    if (structured.length === 0) return null;
+
+    return (
+        <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
+            <h3 className="font-bold mb-4">Structured Outputs</h3>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {structured.map(r => (
+                    <div key={r.agent_id}>
+                        <h4 className="font-semibold text-sm mb-2">
+                            {r.agent_name}
+                            {r.validation_errors && r.validation_errors.length > 0 && (
+                                <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">{r.validation_errors.length} schema issue(s)</span>
+                            )}
+                        </h4>
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {Object.entries(r.structured_output as Record<string, unknown>).map(([key, value]) => (
+                                    <tr key={key} className="border-t border-gray-200 dark:border-zinc-700">
+                                        <td className="py-1 pr-4 font-mono text-xs">{key}</td>
+                                        <td className="py-1 text-gray-600 dark:text-gray-300">{summarizeField(value)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const countRetries = (result: PipelineResult) => Math.max(0, (result.attempts?.length || 0) - 1);
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 64;
+const COLUMN_GAP = 70;
+const ROW_GAP = 24;
+
+// Columns by dependency depth (the document first), with an edge for every input.
 const AgentNetworkGraph: React.FC = () => {
-    const { pipelineResults } = useContext(AppContext);
+    const { pipelineResults, runConfig, selectedAgentIds } = useContext(AppContext);
+
+    const layout = useMemo(() => {
+        const dependencies = buildDependencyMap(runConfig.agents, selectedAgentIds);
+        if (validateDependencies(dependencies).length > 0) return null;
+        const levels = { ...getDependencyLevels(dependencies), [DOCUMENT_INPUT]: 0 };
+        const columns: string[][] = [];
+        [DOCUMENT_INPUT, ...selectedAgentIds].forEach(id => {
+            (columns[levels[id]] = columns[levels[id]] || []).push(id);
+        });
+        const tallest = Math.max(...columns.map(c => c.length));
+        const height = tallest * NODE_HEIGHT + (tallest - 1) * ROW_GAP;
+        const positions: Record<string, { x: number; y: number }> = {};
+        columns.forEach((column, level) => {
+            const offset = (height - (column.length * NODE_HEIGHT + (column.length - 1) * ROW_GAP)) / 2;
+            column.forEach((id, row) => {
+                positions[id] = { x: level * (NODE_WIDTH + COLUMN_GAP), y: offset + row * (NODE_HEIGHT + ROW_GAP) };
+            });
+        });
+        const edges = selectedAgentIds.flatMap(id => dependencies[id].map(from => ({ from, to: id })));
+        return { positions, edges, width: columns.length * NODE_WIDTH + (columns.length - 1) * COLUMN_GAP, height };
+    }, [runConfig, selectedAgentIds]);
 
     if (!pipelineResults || pipelineResults.length === 0) return null;
+    if (!layout) return <p className="text-sm text-red-500">The pipeline's inputs contain a cycle or an unselected agent.</p>;
 
     return (
-        <div className="flex items-center justify-center space-x-2 md:space-x-4 p-4 overflow-x-auto">
-            {pipelineResults.map((result, index) => (
-                <React.Fragment key={result.agent_id}>
-                    <div className="flex flex-col items-center text-center">
-                        <div className="h-16 w-16 flex items-center justify-center rounded-full bg-blue-500 text-white font-bold text-xs p-2 shadow-lg">
-                           {result.agent_name}
-                        </div>
-                         <span className={`mt-2 text-xs px-2 py-1 rounded-full ${result.status === 'completed' ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : (result.status === 'pending' ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300' : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300')}`}>
-                           {result.status}
+        <div className="p-4 overflow-x-auto">
+            <div className="relative mx-auto" style={{ width: layout.width, height: layout.height }}>
+                <svg className="absolute inset-0 text-gray-300 dark:text-zinc-600" width={layout.width} height={layout.height}>
+                    {layout.edges.map(({ from, to }) => {
+                        const start = layout.positions[from];
+                        const end = layout.positions[to];
+                        const x1 = start.x + NODE_WIDTH, y1 = start.y + NODE_HEIGHT / 2;
+                        const x2 = end.x, y2 = end.y + NODE_HEIGHT / 2;
+                        const bend = (x2 - x1) / 2;
+                        return <path key={`${from}-${to}`} d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`} stroke="currentColor" strokeWidth={2} fill="none" />;
+                    })}
+                </svg>
+                <div className="absolute flex items-center justify-center rounded-lg bg-gray-500 text-white font-bold text-xs shadow-lg"
+                    style={{ left: layout.positions[DOCUMENT_INPUT].x, top: layout.positions[DOCUMENT_INPUT].y, width: NODE_WIDTH, height: NODE_HEIGHT }}>
+                    Document
+                </div>
+                {pipelineResults.filter(result => layout.positions[result.agent_id]).map(result => (
+                    <div key={result.agent_id} className="absolute flex flex-col items-center justify-center rounded-lg bg-blue-500 text-white text-center text-xs p-1 shadow-lg"
+                        style={{ left: layout.positions[result.agent_id].x, top: layout.positions[result.agent_id].y, width: NODE_WIDTH, height: NODE_HEIGHT }}>
+                        <span className="font-bold truncate w-full">{result.agent_name}</span>
+                        <span className={`mt-1 px-2 rounded-full ${STATUS_CLASSES[result.status]}`}>
+                            {result.status}{countRetries(result) > 0 && ` ↻ ${countRetries(result)}`}
                         </span>
                     </div>
-                    {index < pipelineResults.length - 1 && (
-                        <div className="flex-1 h-1 bg-gray-300 dark:bg-zinc-600 rounded-full min-w-[20px] md:min-w-[50px]"></div>
-                    )}
-                </React.Fragment>
-            ))}
+                ))}
+            </div>
         </div>
     );
 };
 
-
 const DashboardTab: React.FC = () => {
-    const { parsedText, pipelineResults, selectedAgentIds, themeMode } = useContext(AppContext);
-
-    const estimateTokens = (text: string) => Math.max(1, Math.round((text || '').length / 4));
+    const { pipelineResults, selectedAgentIds, themeMode, ocrJobs } = useContext(AppContext);
 
     const completedResults = useMemo(() => pipelineResults.filter(r => r.status === 'completed'), [pipelineResults]);
 
+    // Provider-reported usage where available; results without it (e.g. the local stand-in) fall back to an estimate.
+    const tokensFor = (r: PipelineResult) => ({
+        input: r.usage ? r.usage.prompt_tokens : estimateTokens(r.input),
+        output: r.usage ? r.usage.completion_tokens : estimateTokens(r.output),
+        cached: r.usage?.cached_tokens || 0,
+    });
+
     const kpiData = useMemo(() => {
-        const inputTokens = estimateTokens(parsedText);
-        const outputTokens = completedResults.reduce((sum, r) => sum + estimateTokens(r.output), 0);
+        const tokens = completedResults.map(tokensFor);
+        const inputTokens = tokens.reduce((sum, t) => sum + t.input, 0);
+        const outputTokens = tokens.reduce((sum, t) => sum + t.output, 0);
+        const cachedTokens = tokens.reduce((sum, t) => sum + t.cached, 0);
+        const isEstimated = completedResults.some(r => !r.usage);
         const completionRate = selectedAgentIds.length > 0 ? (completedResults.length / selectedAgentIds.length) * 100 : 0;
         const totalLatency = completedResults.reduce((sum, r) => sum + (r.latency || 0), 0);
-        return { inputTokens, outputTokens, completionRate, totalLatency };
-    }, [parsedText, completedResults, selectedAgentIds]);
+        const runCost = completedResults.reduce((sum, r) => sum + (r.cost || 0), 0);
+        const ocrCost = ocrJobs.reduce((sum, job) => sum + (job.cost || 0), 0);
+        return { inputTokens, outputTokens, cachedTokens, isEstimated, completionRate, totalLatency, runCost, ocrCost };
+    }, [completedResults, selectedAgentIds, ocrJobs]);
+
+    const statusCounts = useMemo(() => ({
+        completed: completedResults.length,
+        error: pipelineResults.filter(r => r.status === 'error').length,
+        cancelled: pipelineResults.filter(r => r.status === 'cancelled').length,
+        skipped: pipelineResults.filter(r => r.status === 'skipped').length,
+        retries: pipelineResults.reduce((sum, r) => sum + countRetries(r), 0),
+    }), [pipelineResults, completedResults]);
     
     const performanceData = useMemo(() => 
         completedResults.map(r => ({
             name: r.agent_name,
-            input: estimateTokens(r.input),
-            output: estimateTokens(r.output),
+            ...tokensFor(r),
+            cost: r.cost || 0,
         })),
     [completedResults]);
 
@@ -70,6 +180,19 @@ const DashboardTab: React.FC = () => {
         return Object.entries(dataByProvider).map(([name, value]) => ({ name, value }));
     }, [completedResults]);
 
+    // How often each provider/model answered as the primary versus as a fallback.
+    const answeredByData = useMemo(() => {
+        const counts: Record<string, { name: string; primary: number; fallback: number }> = {};
+        completedResults.forEach(r => {
+            if (!r.provider) return;
+            const name = `${r.provider}/${r.model || '?'}`;
+            counts[name] = counts[name] || { name, primary: 0, fallback: 0 };
+            if (r.fallback_index) counts[name].fallback++;
+            else counts[name].primary++;
+        });
+        return Object.values(counts);
+    }, [completedResults]);
+
     const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
 
     if (selectedAgentIds.length === 0) {
@@ -83,17 +206,32 @@ const DashboardTab: React.FC = () => {
     return (
         <div className="space-y-6">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-                <KPICard title="Input Tokens" value={kpiData.inputTokens} color="#3b82f6" />
-                <KPICard title="Output Tokens" value={kpiData.outputTokens} color="#22c55e" />
+                <KPICard title={`Input Tokens${kpiData.isEstimated ? ' (est.)' : ''}`} value={kpiData.inputTokens} color="#3b82f6" />
+                <KPICard title={`Output Tokens${kpiData.isEstimated ? ' (est.)' : ''}`} value={kpiData.outputTokens} color="#22c55e" />
                 <KPICard title="Completion Rate" value={`${kpiData.completionRate.toFixed(0)}%`} color="#f97316" />
                 <KPICard title="Total Latency" value={`${kpiData.totalLatency.toFixed(1)}s`} color="#a855f7" />
             </div>
 
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                <KPICard title="Completed Steps" value={statusCounts.completed} color="#22c55e" />
+                <KPICard title="Failed Steps" value={statusCounts.error} color="#ef4444" />
+                <KPICard title="Cancelled / Skipped" value={`${statusCounts.cancelled} / ${statusCounts.skipped}`} color="#eab308" />
+                <KPICard title="Retries" value={statusCounts.retries} color="#f59e0b" />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                <KPICard title="Run Cost" value={formatCost(kpiData.runCost)} color="#0ea5e9" />
+                <KPICard title={`OCR Cost (${ocrJobs.length} job${ocrJobs.length === 1 ? '' : 's'})`} value={formatCost(kpiData.ocrCost)} color="#14b8a6" />
+                <KPICard title="Cached Input Tokens" value={kpiData.cachedTokens} color="#64748b" />
+            </div>
+
             <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
                 <h3 className="font-bold mb-4">Pipeline Flow</h3>
                 <AgentNetworkGraph />
             </div>
 
+            <StructuredOutputs results={completedResults} />
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
                     <h3 className="font-bold mb-4">Agent Performance (Tokens)</h3>
@@ -131,6 +269,30 @@ const DashboardTab: React.FC = () => {
                         </PieChart>
                     </ResponsiveContainer>
                 </div>
+                <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
+                    <h3 className="font-bold mb-4">Cost per Step (USD)</h3>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={performanceData}>
+                            <XAxis dataKey="name" stroke={themeMode === 'dark' ? '#a1a1aa' : '#6b7280'} fontSize={12} />
+                            <YAxis stroke={themeMode === 'dark' ? '#a1a1aa' : '#6b7280'} fontSize={12} />
+                            <Tooltip formatter={(value: number) => formatCost(value)} contentStyle={{ backgroundColor: themeMode === 'dark' ? '#27272a' : '#fff', border: `1px solid ${themeMode === 'dark' ? '#52525b' : '#e5e7eb'}` }} />
+                            <Bar dataKey="cost" fill="#0ea5e9" name="Cost" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+                <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
+                    <h3 className="font-bold mb-4">Answered By (Primary vs Fallback)</h3>
+                    <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={answeredByData}>
+                            <XAxis dataKey="name" stroke={themeMode === 'dark' ? '#a1a1aa' : '#6b7280'} fontSize={12} />
+                            <YAxis allowDecimals={false} stroke={themeMode === 'dark' ? '#a1a1aa' : '#6b7280'} fontSize={12} />
+                            <Tooltip contentStyle={{ backgroundColor: themeMode === 'dark' ? '#27272a' : '#fff', border: `1px solid ${themeMode === 'dark' ? '#52525b' : '#e5e7eb'}` }} />
+                            <Legend />
+                            <Bar dataKey="primary" stackId="answered" fill="#22c55e" name="Primary" />
+                            <Bar dataKey="fallback" stackId="answered" fill="#a855f7" name="Fallback" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
             </div>
         </div>
     );
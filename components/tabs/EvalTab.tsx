@@ -0,0 +1,201 @@
+import React, { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { AppContext } from '../../AppContext';
+import type { EvalCaseResult, EvalRun } from '../../types';
+import { getEvalTrends, getPromptVersion, runEvalSuite, summarizeEvalRun, validateEvals } from '../../services/evalService';
+import { clearEvalRuns, listEvalRuns, saveEvalRun } from '../../services/historyService';
+import { formatCost } from '../../services/costService';
+import { Play, Square, Trash2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+
+const passRateClass = (passed: number, total: number) =>
+    passed === total ? 'bg-green-500' : passed === 0 ? 'bg-red-500' : 'bg-amber-500';
+
+const CaseRow: React.FC<{ result: EvalCaseResult }> = ({ result }) => (
+    <details className="border-t border-gray-200 dark:border-zinc-700">
+        <summary className="p-3 flex items-center space-x-3 cursor-pointer text-sm">
+            {result.passed ? <CheckCircle size={16} className="text-green-500 shrink-0" /> : <XCircle size={16} className="text-red-500 shrink-0" />}
+            <span className="font-medium">{result.case_name}</span>
+            <span className="text-gray-500 dark:text-gray-400">{result.agent_id} @ <code>{result.prompt_version}</code></span>
+            <span className="text-gray-500 dark:text-gray-400">{result.checks.filter(c => c.passed).length}/{result.checks.length} checks</span>
+            {result.cost !== undefined && <span className="text-gray-500 dark:text-gray-400">{formatCost(result.cost)}</span>}
+        </summary>
+        <div className="px-10 pb-3 space-y-2 text-sm">
+            {result.error && <p className="text-red-500">{result.error}</p>}
+            {result.checks.length > 0 && (
+                <ul className="space-y-1">
+                    {result.checks.map((check, i) => (
+                        <li key={i} className={check.passed ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                            {check.passed ? '✓' : '✗'} {check.label}{check.detail && <span className="text-gray-500 dark:text-gray-400"> ({check.detail})</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {result.judge && <p className="text-gray-600 dark:text-gray-300"><span className="font-medium">Judge ({result.judge.score}/5):</span> {result.judge.reasoning}</p>}
+            {result.output && <pre className="p-2 bg-gray-50 dark:bg-zinc-900 rounded-md text-xs whitespace-pre-wrap max-h-64 overflow-y-auto">{result.output}</pre>}
+        </div>
+    </details>
+);
+
+const EvalTab: React.FC = () => {
+    const { agentsConfig, apiKeys } = useContext(AppContext);
+    const cases = agentsConfig.evals?.cases || [];
+    const agentIds = useMemo(() => Array.from(new Set(cases.map(c => c.agent))), [cases]);
+    const issues = useMemo(() => validateEvals(agentsConfig), [agentsConfig]);
+    const [agentFilter, setAgentFilter] = useState('');
+    const [results, setResults] = useState<EvalCaseResult[]>([]);
+    const [history, setHistory] = useState<EvalRun[]>([]);
+    const [currentVersions, setCurrentVersions] = useState<Record<string, string>>({});
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState('');
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        listEvalRuns().then(setHistory).catch(e => setError(`Could not load eval history: ${e instanceof Error ? e.message : String(e)}`));
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        Promise.all(agentsConfig.agents.map(async agent => [agent.id, await getPromptVersion(agent)] as const))
+            .then(entries => setCurrentVersions(Object.fromEntries(entries)));
+    }, [agentsConfig]);
+
+    const selectedCases = cases.filter(c => !agentFilter || c.agent === agentFilter);
+    const trends = useMemo(() => getEvalTrends(history), [history]);
+    const latestRun = history[history.length - 1];
+
+    const handleRun = async () => {
+        controllerRef.current = new AbortController();
+        setRunning(true);
+        setResults([]);
+        setError('');
+        try {
+            const run = await runEvalSuite(agentsConfig, selectedCases, apiKeys, {
+                signal: controllerRef.current.signal,
+                onResult: result => setResults(prev => [...prev, result]),
+            });
+            if (run.results.length > 0) {
+                await saveEvalRun(run);
+                setHistory(prev => [...prev, run]);
+            }
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            controllerRef.current = null;
+            setRunning(false);
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete all saved eval runs? Trends start over.')) return;
+        await clearEvalRuns();
+        setHistory([]);
+    };
+
+    if (cases.length === 0) {
+        return (
+            <div className="max-w-6xl mx-auto p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md text-center">
+                <h2 className="text-xl font-bold mb-2">Prompt Evals</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Add an <code>evals</code> section with golden documents and assertions to agents.yaml in the Agent Configuration tab.</p>
+            </div>
+        );
+    }
+
+    const shownResults = running || results.length > 0 ? results : latestRun?.results || [];
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-4">
+                <h2 className="text-xl font-bold">Prompt Evals</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Each case runs its agent (and the steps feeding it) on a golden document and checks the output. Runs are saved, and results are grouped by prompt version so you can see whether an edit made things better or worse.
+                </p>
+                {issues.length > 0 && (
+                    <div className="p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400 text-sm">
+                        <p className="font-semibold flex items-center space-x-2"><AlertTriangle size={16} /><span>Problems in the evals section</span></p>
+                        <ul className="list-disc ml-5 mt-1 font-mono text-xs">
+                            {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                    <select value={agentFilter} onChange={(e) => setAgentFilter(e.target.value)} disabled={running} className="p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                        <option value="">All agents ({cases.length} cases)</option>
+                        {agentIds.map(id => <option key={id} value={id}>{id} ({cases.filter(c => c.agent === id).length} cases)</option>)}
+                    </select>
+                    {!running ? (
+                        <button onClick={handleRun} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700">
+                            <Play size={14} /><span>Run {selectedCases.length} case(s)</span>
+                        </button>
+                    ) : (
+                        <button onClick={() => controllerRef.current?.abort()} className="flex items-center space-x-1 py-2 px-4 text-sm font-bold rounded-lg bg-red-600 text-white hover:bg-red-700">
+                            <Square size={14} /><span>Stop</span>
+                        </button>
+                    )}
+                    {running && <span className="text-sm text-gray-500 dark:text-gray-400">{results.length} of {selectedCases.length} done…</span>}
+                </div>
+                {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+
+            {shownResults.length > 0 && (
+                <div className="bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700">
+                    <div className="p-3 flex flex-wrap gap-4 text-sm">
+                        {summarizeEvalRun({ id: '', started_at: 0, results: shownResults }).map(summary => (
+                            <span key={`${summary.agent_id}|${summary.prompt_version}`} className="flex items-center space-x-2">
+                                <span className={`inline-block w-2 h-2 rounded-full ${passRateClass(summary.passed, summary.total)}`} />
+                                <span className="font-medium">{summary.agent_id}</span>
+                                <span>{summary.passed}/{summary.total} passed</span>
+                            </span>
+                        ))}
+                    </div>
+                    {shownResults.map(result => <CaseRow key={result.case_id} result={result} />)}
+                </div>
+            )}
+
+            {history.length > 0 && (
+                <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-bold">Trends by Prompt Version</h3>
+                        <button onClick={handleClear} disabled={running} className="flex items-center space-x-1 py-1 px-3 text-sm font-medium rounded-lg border dark:border-zinc-600 text-red-600 disabled:text-gray-400">
+                            <Trash2 size={14} /><span>Clear history</span>
+                        </button>
+                    </div>
+                    {Object.keys(trends).map(agentId => (
+                        <div key={agentId}>
+                            <p className="text-sm font-medium mb-1">{agentId}</p>
+                            <table className="w-full text-sm">
+                                <tbody>
+                                    {trends[agentId].map(trend => {
+                                        const last = trend.runs[trend.runs.length - 1];
+                                        return (
+                                            <tr key={trend.prompt_version} className="border-t border-gray-200 dark:border-zinc-700">
+                                                <td className="p-2 w-48">
+                                                    <code>{trend.prompt_version}</code>
+                                                    {currentVersions[agentId] === trend.prompt_version && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300">current</span>}
+                                                </td>
+                                                <td className="p-2 w-32 text-gray-500 dark:text-gray-400">{new Date(trend.first_run_at).toLocaleDateString()}</td>
+                                                <td className="p-2">
+                                                    <div className="flex items-end space-x-1 h-6">
+                                                        {trend.runs.map(r => (
+                                                            <div
+                                                                key={r.run_id}
+                                                                title={`${new Date(r.started_at).toLocaleString()}: ${r.passed}/${r.total} passed`}
+                                                                className={`w-2 ${passRateClass(r.passed, r.total)}`}
+                                                                style={{ height: `${Math.max(10, (r.passed / r.total) * 100)}%` }}
+                                                            />
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                                <td className="p-2 w-32 text-right">{last.passed}/{last.total} latest</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EvalTab;
@@ -0,0 +1,189 @@
+import React, { useContext, useEffect, useMemo, useState } from 'react';
+import { AppContext } from '../../AppContext';
+import type { RunRecord } from '../../types';
+import { clearRuns, deleteRun, listRuns } from '../../services/historyService';
+import { diffLines } from '../../services/diffService';
+import { formatCost } from '../../services/costService';
+import { FolderOpen, Trash2, GitCompare } from 'lucide-react';
+
+const DIFF_LINE_CLASSES = {
+    same: 'text-gray-600 dark:text-gray-400',
+    added: 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+    removed: 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const formatRunLabel = (run: RunRecord) => `${new Date(run.started_at).toLocaleString()} · ${run.document_hash.slice(0, 8)}`;
+
+const RunComparison: React.FC<{ before: RunRecord; after: RunRecord }> = ({ before, after }) => {
+    const agentIds = useMemo(
+        () => Array.from(new Set([...before.results.map(r => r.agent_id), ...after.results.map(r => r.agent_id)])),
+        [before, after]
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+                {[before, after].map((run, i) => (
+                    <div key={run.id} className="p-3 rounded-md bg-gray-50 dark:bg-zinc-900/50">
+                        <p className="font-semibold">{i === 0 ? 'Before' : 'After'}: {formatRunLabel(run)}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {run.summary.completed}/{run.summary.steps} completed · {run.summary.prompt_tokens + run.summary.completion_tokens} tokens · {formatCost(run.summary.cost)} · {run.summary.latency.toFixed(1)}s
+                        </p>
+                    </div>
+                ))}
+            </div>
+            {before.document_hash !== after.document_hash && (
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">These runs used different documents.</p>
+            )}
+            {agentIds.map(agentId => {
+                const a = before.results.find(r => r.agent_id === agentId);
+                const b = after.results.find(r => r.agent_id === agentId);
+                const promptChanged = before.agents_config.agents.find(x => x.id === agentId)?.prompt !== after.agents_config.agents.find(x => x.id === agentId)?.prompt;
+                const lines = diffLines(a?.output || '', b?.output || '');
+                const changed = lines.some(line => line.type !== 'same');
+                return (
+                    <details key={agentId} open={changed} className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md">
+                        <summary className="cursor-pointer font-semibold">
+                            {b?.agent_name || a?.agent_name || agentId}
+                            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                {a?.status || 'not in run'} → {b?.status || 'not in run'}
+                                {promptChanged && ' · prompt changed'}
+                                {!changed && ' · output identical'}
+                            </span>
+                        </summary>
+                        <pre className="mt-2 max-h-96 overflow-y-auto text-xs whitespace-pre-wrap font-mono">
+                            {lines.map((line, i) => (
+                                <div key={i} className={DIFF_LINE_CLASSES[line.type]}>
+                                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                                </div>
+                            ))}
+                        </pre>
+                    </details>
+                );
+            })}
+        </div>
+    );
+};
+
+const HistoryTab: React.FC<{ onOpenRun: () => void }> = ({ onOpenRun }) => {
+    const { loadRun, activeRun } = useContext(AppContext);
+    const [runs, setRuns] = useState<RunRecord[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    const refresh = async () => {
+        setIsLoading(true);
+        try {
+            setRuns(await listRuns());
+            setError('');
+        } catch (e) {
+            setError(`Could not read run history: ${e instanceof Error ? e.message : String(e)}`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const toggleCompare = (id: string) => {
+        // Keep the two most recent picks.
+        setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+    };
+
+    const handleOpen = (run: RunRecord) => {
+        if (loadRun(run)) onOpenRun();
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteRun(id);
+        } catch (e) {
+            setError(`Could not delete the run: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        setCompareIds(prev => prev.filter(x => x !== id));
+        refresh();
+    };
+
+    const handleClear = async () => {
+        if (!confirm('Delete all saved runs?')) return;
+        try {
+            await clearRuns();
+        } catch (e) {
+            setError(`Could not clear run history: ${e instanceof Error ? e.message : String(e)}`);
+            return;
+        }
+        setCompareIds([]);
+        refresh();
+    };
+
+    // Older run on the left.
+    const comparedRuns = compareIds
+        .map(id => runs.find(run => run.id === id))
+        .filter((run): run is RunRecord => !!run)
+        .sort((a, b) => a.started_at - b.started_at);
+
+    if (isLoading) return <div className="text-center p-8">Loading run history...</div>;
+    if (error) return <div className="text-center p-8 text-red-500">{error}</div>;
+    if (runs.length === 0) {
+        return <div className="text-center p-8 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md"><p>No saved runs yet. Runs are saved automatically when you execute the pipeline.</p></div>;
+    }
+
+    return (
+        <div className="max-w-6xl mx-auto space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-bold">Run History</h2>
+                <button onClick={handleClear} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600 text-red-600">
+                    <Trash2 size={14} /><span>Clear history</span>
+                </button>
+            </div>
+            <div className="bg-white dark:bg-zinc-800/50 rounded-lg shadow-md overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500 dark:text-gray-400">
+                        <tr>
+                            <th className="p-3" title="Select two runs to compare"><GitCompare size={16} /></th>
+                            <th className="p-3">Started</th>
+                            <th className="p-3">Document</th>
+                            <th className="p-3">Steps</th>
+                            <th className="p-3">Tokens</th>
+                            <th className="p-3">Cost</th>
+                            <th className="p-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {runs.map(run => (
+                            <tr key={run.id} className={`border-t border-gray-200 dark:border-zinc-700 ${activeRun?.id === run.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                                <td className="p-3">
+                                    <input type="checkbox" checked={compareIds.includes(run.id)} onChange={() => toggleCompare(run.id)} className="h-4 w-4 rounded" />
+                                </td>
+                                <td className="p-3">{new Date(run.started_at).toLocaleString()}</td>
+                                <td className="p-3 font-mono text-xs" title={run.document_hash}>{run.document_hash.slice(0, 12)} ({run.document.length.toLocaleString()} chars)</td>
+                                <td className="p-3">
+                                    {run.summary.completed}/{run.summary.steps} completed
+                                    {run.summary.error > 0 && <span className="text-red-500">, {run.summary.error} failed</span>}
+                                    {run.summary.skipped > 0 && <span className="text-gray-500">, {run.summary.skipped} skipped</span>}
+                                </td>
+                                <td className="p-3">{(run.summary.prompt_tokens + run.summary.completion_tokens).toLocaleString()}</td>
+                                <td className="p-3">{formatCost(run.summary.cost)}</td>
+                                <td className="p-3 flex space-x-2 justify-end">
+                                    <button onClick={() => handleOpen(run)} title="Open in Pipeline and Reports" className="text-blue-500 hover:text-blue-700"><FolderOpen size={16} /></button>
+                                    <button onClick={() => handleDelete(run.id)} title="Delete run" className="text-red-500 hover:text-red-700"><Trash2 size={16} /></button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {comparedRuns.length === 2 ? (
+                <RunComparison before={comparedRuns[0]} after={comparedRuns[1]} />
+            ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center">Select two runs to compare their outputs step by step.</p>
+            )}
+        </div>
+    );
+};
+
+export default HistoryTab;
@@ -1,24 +1,262 @@
 
-import React, { useContext, useState, useEffect } from 'react';
+import React, { useContext, useState, useEffect, useRef } from 'react';
 import { AppContext } from '../../AppContext';
-import { runAgent } from '../../services/llmService';
-import type { PipelineResult } from '../../types';
-import { ArrowDown } from 'lucide-react';
+import { formatCost } from '../../services/costService';
+import { buildDependencyMap, composeInput, DOCUMENT_INPUT, getAgentInputs, getDownstream, validateDependencies } from '../../services/dagService';
+import { getMissingRunVariables, renderTemplate, resolveRunVariables } from '../../services/templateService';
+import { executeStep as runPipelineStep, PipelineContext, runPipeline } from '../../services/pipelineService';
+import { parseJsonOutput, validateSchema } from '../../services/schemaService';
+import { getTransformOperation } from '../../services/transformService';
+import { createRunId, createRunRecord, saveRun } from '../../services/historyService';
+import { createPipelineDefinition, createPipelineId, exportConfigYaml, getPipeline, getPipelineAgentIds, savePipeline } from '../../services/pipelineDefinitionService';
+import { downloadFile } from '../../services/reportService';
+import { createVariantId, getDefaultVariantModels, MAX_STEP_VARIANTS, promoteVariant, runStepVariant } from '../../services/variantService';
+import { listProviders } from '../../services/providers';
+import { getMemberLabel, getMemberTag } from '../../services/ensembleService';
+import type { Agent, EnsembleResult, InputTransform, PipelineResult, RunVariable, StepVariant } from '../../types';
+import { ArrowDown, Download, Plus, Save, Square, X } from 'lucide-react';
 
-const PipelineStep: React.FC<{ agentId: string, step: number, isLast: boolean, onExecute: () => Promise<void> }> = ({ agentId, step, isLast, onExecute }) => {
-    const { agentsConfig, pipelineResults, parsedText } = useContext(AppContext);
-    const [isExecuting, setIsExecuting] = useState(false);
+const STATUS_CLASSES: Record<PipelineResult['status'], string> = {
+    pending: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+    running: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    completed: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    skipped: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-700 dark:text-zinc-400',
+};
+
+const describeTransform = (transform: InputTransform) => {
+    const operation = getTransformOperation(transform);
+    return `${transform.source ? `${transform.source}: ` : ''}${operation} ${operation ? JSON.stringify(transform[operation]) : ''}`;
+};
+
+const formatModel = (model: Agent['model']) => `${model.provider}/${model.name} · T=${model.temperature}`;
+
+const createPendingResult = (step: number, agentId: string, agentName: string): PipelineResult => (
+    { step, agent_id: agentId, agent_name: agentName, input: '', output: '', timestamp: 0, status: 'pending' }
+);
+
+// A/B comparison of the step on several models; the outputs are shown next to each other and do not replace the step's own.
+const VariantPanel: React.FC<{
+    agent: Agent,
+    result: PipelineResult,
+    // The model in agents.yaml, which promoting a variant overwrites.
+    configuredModel?: Agent['model'],
+    disabled: boolean,
+    onRun: (models: Agent['model'][]) => void,
+    onStop: () => void,
+    onPrefer: (variantId: string) => void,
+    onPromote: () => void,
+}> = ({ agent, result, configuredModel, disabled, onRun, onStop, onPrefer, onPromote }) => {
+    const [models, setModels] = useState<Agent['model'][]>(() => result.variants?.map(v => v.model) || getDefaultVariantModels(agent));
+    const providers = listProviders();
+    const variants = result.variants || [];
+    const running = variants.some(v => v.status === 'running');
+    const preferred = variants.find(v => v.id === result.preferred_variant);
+    const promoted = preferred && configuredModel && formatModel(preferred.model) === formatModel(configuredModel) && preferred.model.max_tokens === configuredModel.max_tokens;
+
+    const updateModel = (index: number, patch: Partial<Agent['model']>) => {
+        setModels(prev => prev.map((model, i) => i === index ? { ...model, ...patch } : model));
+    };
+
+    return (
+        <details className="mt-2 text-sm" open={variants.length > 0 || undefined}>
+            <summary className="cursor-pointer font-semibold">
+                Compare models (A/B)
+                {variants.length > 0 && <span className="ml-2 font-normal text-xs text-gray-500 dark:text-gray-400">{variants.length} variants{preferred ? ` · preferred: ${preferred.model.provider}/${preferred.model.name}` : ''}</span>}
+            </summary>
+            <div className="mt-2 space-y-2">
+                {models.map((model, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <span className="w-5 text-xs text-gray-500 dark:text-gray-400">{String.fromCharCode(65 + index)}</span>
+                        <select value={model.provider} onChange={(e) => updateModel(index, { provider: e.target.value, name: providers.find(p => p.id === e.target.value)?.defaultModel || model.name })} disabled={running} className="p-1 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-xs">
+                            {providers.map(provider => <option key={provider.id} value={provider.id}>{provider.label}</option>)}
+                        </select>
+                        <input type="text" value={model.name} onChange={(e) => updateModel(index, { name: e.target.value })} disabled={running} className="flex-1 min-w-[8rem] p-1 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-xs font-mono" />
+                        <label className="text-xs text-gray-500 dark:text-gray-400">T</label>
+                        <input type="number" min={0} max={2} step={0.05} value={model.temperature} onChange={(e) => updateModel(index, { temperature: parseFloat(e.target.value) || 0 })} disabled={running} className="w-16 p-1 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-xs" />
+                        <button onClick={() => setModels(prev => prev.filter((_, i) => i !== index))} disabled={running || models.length <= 2} title="Remove variant" className="text-gray-500 hover:text-red-600 disabled:text-gray-300"><X size={14} /></button>
+                    </div>
+                ))}
+                <div className="flex space-x-2">
+                    <button onClick={() => setModels(prev => [...prev, { ...agent.model }])} disabled={running || models.length >= MAX_STEP_VARIANTS} className="flex items-center space-x-1 py-1 px-3 text-xs font-medium rounded-lg border dark:border-zinc-600 disabled:text-gray-400">
+                        <Plus size={12} /><span>Add variant</span>
+                    </button>
+                    {running ? (
+                        <button onClick={onStop} className="flex items-center space-x-1 py-1 px-3 text-xs font-medium rounded-lg bg-red-600 text-white hover:bg-red-700">
+                            <Square size={12} /><span>Stop</span>
+                        </button>
+                    ) : (
+                        <button onClick={() => onRun(models)} disabled={disabled} className="py-1 px-3 text-xs font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400">
+                            ▶️ Run {models.length} variants
+                        </button>
+                    )}
+                </div>
+                {variants.length > 0 && (
+                    <div className={`grid gap-3 ${variants.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                        {variants.map((variant, index) => (
+                            <VariantCard key={variant.id} label={String.fromCharCode(65 + index)} variant={variant} agent={agent} preferred={variant.id === result.preferred_variant} onPrefer={() => onPrefer(variant.id)} />
+                        ))}
+                    </div>
+                )}
+                {preferred && (
+                    <div className="flex items-center space-x-2">
+                        <button onClick={onPromote} disabled={running || promoted} className="py-1 px-3 text-xs font-medium rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
+                            Use {formatModel(preferred.model)} for this agent
+                        </button>
+                        {promoted && <span className="text-xs text-green-600 dark:text-green-400">✓ agents.yaml uses this model</span>}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+const VariantCard: React.FC<{ label: string, variant: StepVariant, agent: Agent, preferred: boolean, onPrefer: () => void }> = ({ label, variant, agent, preferred, onPrefer }) => (
+    <div className={`p-2 rounded-md border ${preferred ? 'border-green-500' : 'border-gray-300 dark:border-zinc-600'}`}>
+        <div className="flex justify-between items-center text-xs">
+            <span className="font-semibold">{label} · {formatModel(variant.model)}</span>
+            <label className="flex items-center space-x-1 cursor-pointer">
+                <input type="radio" checked={preferred} onChange={onPrefer} disabled={variant.status !== 'completed'} />
+                <span>Preferred</span>
+            </label>
+        </div>
+        <div className="flex flex-wrap gap-1 mt-1 text-xs">
+            <span className={`px-2 py-0.5 rounded-full ${STATUS_CLASSES[variant.status]}`}>{variant.status}</span>
+            {variant.latency !== undefined && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-zinc-700">{variant.latency.toFixed(2)}s</span>}
+            {variant.usage && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-zinc-700" title={`${variant.usage.prompt_tokens} prompt / ${variant.usage.completion_tokens} completion tokens`}>{variant.usage.prompt_tokens + variant.usage.completion_tokens} tok</span>}
+            {variant.cost !== undefined && <span className="px-2 py-0.5 rounded-full bg-gray-100 dark:bg-zinc-700">{formatCost(variant.cost)}</span>}
+            {variant.status === 'completed' && agent.output_schema && (
+                variant.validation_errors?.length
+                    ? <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300" title={variant.validation_errors.join('\n')}>schema: {variant.validation_errors.length} issue(s)</span>
+                    : <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300">schema ✓</span>
+            )}
+        </div>
+        {variant.error && <p className="mt-1 text-xs text-red-500">{variant.error}</p>}
+        <pre className="mt-1 p-2 h-48 overflow-y-auto whitespace-pre-wrap rounded-md bg-gray-50 dark:bg-zinc-900/50 text-xs">{variant.output || (variant.status === 'running' ? 'Waiting for first token...' : '')}</pre>
+    </div>
+);
+
+// Every ensemble member's answer and vote, kept for audit next to the merged output.
+const EnsemblePanel: React.FC<{ ensemble: EnsembleResult }> = ({ ensemble }) => {
+    const disputed = ensemble.votes.filter(vote => !vote.unanimous);
+    const voteClass = (vote: string | undefined, verdict: string) =>
+        vote === undefined ? 'text-gray-400' : vote === verdict ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400 font-semibold';
+    return (
+        <details className="mt-2 text-sm">
+            <summary className="cursor-pointer font-semibold">
+                Ensemble: {ensemble.merge === 'judge' ? 'judge' : 'majority vote'} over {ensemble.members.length} models
+                {disputed.length > 0 && <span className="ml-2 font-normal text-xs text-yellow-600 dark:text-yellow-400">models disagreed on {disputed.length} categor{disputed.length === 1 ? 'y' : 'ies'}</span>}
+            </summary>
+            <div className="mt-2 space-y-3">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                            <th className="p-1">Model</th><th className="p-1">Status</th><th className="p-1">Latency</th><th className="p-1">Tokens</th><th className="p-1">Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ensemble.members.map((member, i) => (
+                            <tr key={i} className="border-t border-gray-200 dark:border-zinc-700">
+                                <td className="p-1 font-mono">{getMemberLabel(member)} · T={member.temperature}</td>
+                                <td className="p-1"><span className={`px-2 py-0.5 rounded-full ${STATUS_CLASSES[member.status]}`}>{member.status}</span>{member.error && <span className="ml-2 text-red-500">{member.error}</span>}</td>
+                                <td className="p-1">{member.latency !== undefined ? `${member.latency.toFixed(2)}s` : ''}</td>
+                                <td className="p-1">{member.usage ? member.usage.prompt_tokens + member.usage.completion_tokens : ''}</td>
+                                <td className="p-1">{member.status === 'completed' ? formatCost(member.cost) : ''}</td>
+                            </tr>
+                        ))}
+                        {ensemble.judge && (
+                            <tr className="border-t border-gray-200 dark:border-zinc-700">
+                                <td className="p-1 font-mono">{ensemble.judge.provider}/{ensemble.judge.model} (judge)</td>
+                                <td className="p-1"><span className={`px-2 py-0.5 rounded-full ${STATUS_CLASSES.completed}`}>completed</span></td>
+                                <td className="p-1">{ensemble.judge.latency.toFixed(2)}s</td>
+                                <td className="p-1">{ensemble.judge.usage ? ensemble.judge.usage.prompt_tokens + ensemble.judge.usage.completion_tokens : ''}</td>
+                                <td className="p-1">{formatCost(ensemble.judge.cost)}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+                {ensemble.votes.length > 0 && (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-left text-gray-500 dark:text-gray-400">
+                                <th className="p-1">Category</th>
+                                {ensemble.members.map((member, i) => <th key={i} className="p-1 font-mono">{String.fromCharCode(65 + i)}</th>)}
+                                <th className="p-1">Majority</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ensemble.votes.map(vote => (
+                                <tr key={vote.category} className={`border-t border-gray-200 dark:border-zinc-700 ${vote.unanimous ? '' : 'bg-yellow-50 dark:bg-yellow-900/20'}`}>
+                                    <td className="p-1">{vote.category}</td>
+                                    {vote.votes.map((v, i) => <td key={i} className={`p-1 ${voteClass(v, vote.verdict)}`}>{v || '—'}</td>)}
+                                    <td className="p-1 font-semibold">{vote.verdict}{vote.tied && <span className="ml-1 font-normal text-yellow-600 dark:text-yellow-400">(tie)</span>}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {ensemble.members.filter(member => member.output).map((member, i) => (
+                    <details key={i} className="text-xs">
+                        <summary className="cursor-pointer">{getMemberTag(ensemble.members.indexOf(member), member)} raw output</summary>
+                        <pre className="mt-1 p-2 max-h-64 overflow-y-auto whitespace-pre-wrap border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50">{member.output}</pre>
+                    </details>
+                ))}
+            </div>
+        </details>
+    );
+};
+
+const PipelineStep: React.FC<{
+    agentId: string,
+    step: number,
+    isLast: boolean,
+    onExecute: () => Promise<unknown>,
+    onStop: () => void,
+    onSaveEdit: (output: string) => void,
+    onApprove: () => void,
+    // Undefined while a run is in progress.
+    onResume?: () => void,
+    onRunVariants: (models: Agent['model'][]) => void,
+    onStopVariants: () => void,
+    onPreferVariant: (variantId: string) => void,
+    onPromoteVariant: () => void,
+}> = ({ agentId, step, isLast, onExecute, onStop, onSaveEdit, onApprove, onResume, onRunVariants, onStopVariants, onPreferVariant, onPromoteVariant }) => {
+    const { agentsConfig, runConfig, pipelineResults, parsedText, selectedAgentIds, runVariables, reviewerName, t } = useContext(AppContext);
+    const [draft, setDraft] = useState<string | null>(null);
     
-    const agent = agentsConfig.agents.find(a => a.id === agentId);
+    const agent = runConfig.agents.find(a => a.id === agentId);
     const result = pipelineResults.find(r => r.agent_id === agentId);
 
-    const prevResult = step > 1 ? pipelineResults.find(r => r.step === step - 1) : null;
-    const input = step === 1 ? parsedText : (prevResult?.output || '');
+    const sources = agent ? getAgentInputs(agent, selectedAgentIds) : [];
+    const { input, missing, errors: transformErrors } = composeInput(sources, parsedText, pipelineResults, agent?.input_transforms);
+    const transforms = agent?.input_transforms || [];
+    const renderedPrompt = agent ? renderTemplate(agent.prompt, {
+        document: parsedText,
+        results: pipelineResults,
+        variables: resolveRunVariables(runConfig.variables, runVariables),
+    }) : { text: '', missing: [] };
+    const sourceName = (source: string) => source === DOCUMENT_INPUT ? 'Document' : (runConfig.agents.find(a => a.id === source)?.name || source);
+    const isExecuting = result?.status === 'running';
+    const variantsRunning = !!result?.variants?.some(v => v.status === 'running');
+    // Ensemble members each make their own calls, so only failed attempts count as retries there.
+    const retries = result?.ensemble
+        ? (result.attempts || []).filter(at => !at.succeeded).length
+        : Math.max(0, (result?.attempts?.length || 0) - 1);
+    const chunkProgress = result?.chunk_progress;
+    const waitingLabel = chunkProgress && chunkProgress.phase !== 'reduce'
+        ? `Processing chunk ${Math.min(chunkProgress.completed + 1, chunkProgress.total)} of ${chunkProgress.total}...`
+        : agent?.tools && agent.tools.length > 0 ? `Working with tools (${result?.tool_calls?.length || 0} call(s) so far)...`
+        : result?.ensemble?.members.some(m => m.status === 'running') ? `Ensemble: ${result.ensemble.members.filter(m => m.status !== 'running').length} of ${result.ensemble.members.length} models answered...`
+        : result?.ensemble && agent?.ensemble?.merge === 'judge' ? 'Judge is reconciling the answers...'
+        : 'Waiting for first token...';
     
     const handleExecute = async () => {
-        setIsExecuting(true);
-        await onExecute();
-        setIsExecuting(false);
+        try {
+            await onExecute();
+        } catch (e) {
+            // The failure is already recorded on the step's result.
+        }
     };
 
     if (!agent) return null;
@@ -30,142 +268,600 @@ const PipelineStep: React.FC<{ agentId: string, step: number, isLast: boolean, o
                     {step}
                 </div>
                 <h3 className="text-lg font-bold ml-6">{agent.name}</h3>
+                {agent.when && <p className="ml-6 text-xs text-gray-500 dark:text-gray-400 font-mono">when: {agent.when}</p>}
+                {agent.tools && agent.tools.length > 0 && <p className="ml-6 text-xs text-gray-500 dark:text-gray-400 font-mono">tools: {agent.tools.join(', ')}</p>}
                 <div className="grid md:grid-cols-2 gap-4 mt-4">
                     <div>
                         <label className="font-semibold">Input</label>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                            from {sources.map(sourceName).join(' + ')}
+                            {transforms.length > 0 && (
+                                <span title={transforms.map(describeTransform).join('\n')}> · {transforms.length} transform{transforms.length === 1 ? '' : 's'}</span>
+                            )}
+                        </span>
                         <textarea
                             value={input}
                             readOnly
                             className="w-full h-32 p-2 mt-1 border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50 text-sm"
                         />
+                        {transformErrors.length > 0 && (
+                            <p className="text-xs text-yellow-600 dark:text-yellow-400">Transform failed: {transformErrors.join('; ')}</p>
+                        )}
+                        {transforms.length > 0 && missing.length === 0 && (
+                            <details className="text-xs text-gray-500 dark:text-gray-400">
+                                <summary className="cursor-pointer">Input before transforms</summary>
+                                <pre className="mt-1 p-2 max-h-40 overflow-y-auto whitespace-pre-wrap border border-gray-300 dark:border-zinc-600 rounded-md">{composeInput(sources, parsedText, pipelineResults).input}</pre>
+                            </details>
+                        )}
                     </div>
                     <div>
-                        <label className="font-semibold">Output</label>
+                        <div className="flex justify-between items-center">
+                            <label className="font-semibold">Output</label>
+                            {result?.status === 'completed' && (draft === null ? (
+                                <button onClick={() => setDraft(result.output)} disabled={!reviewerName} title={reviewerName ? undefined : 'Enter a reviewer name in the sidebar first'} className="text-xs text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline">
+                                    ✏️ {t('modify')}
+                                </button>
+                            ) : (
+                                <div className="space-x-2 text-xs">
+                                    <button onClick={() => { onSaveEdit(draft); setDraft(null); }} className="text-green-600 hover:underline">Save</button>
+                                    <button onClick={() => setDraft(null)} className="text-gray-500 hover:underline">Cancel</button>
+                                </div>
+                            ))}
+                        </div>
                          <textarea
-                            value={result?.output || ''}
-                            readOnly
-                            placeholder={isExecuting ? "Executing..." : "Output will appear here..."}
-                            className="w-full h-32 p-2 mt-1 border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50 text-sm"
+                            value={draft ?? result?.output ?? ''}
+                            readOnly={draft === null}
+                            onChange={(e) => setDraft(e.target.value)}
+                            placeholder={isExecuting ? waitingLabel : "Output will appear here..."}
+                            className={`w-full h-32 p-2 mt-1 border rounded-md text-sm ${draft !== null ? 'border-blue-500 bg-white dark:bg-zinc-900' : 'border-gray-300 dark:border-zinc-600 bg-gray-50 dark:bg-zinc-900/50'}`}
                         />
+                        {result?.edit && (
+                            <details className="text-xs text-gray-500 dark:text-gray-400">
+                                <summary className="cursor-pointer">Edited by {result.edit.by} at {new Date(result.edit.at).toLocaleString()} · show model output</summary>
+                                <pre className="mt-1 p-2 max-h-40 overflow-y-auto whitespace-pre-wrap border border-gray-300 dark:border-zinc-600 rounded-md">{result.original_output}</pre>
+                            </details>
+                        )}
                     </div>
                 </div>
+                <details className="mt-4 text-sm">
+                    <summary className="cursor-pointer font-semibold">
+                        Rendered prompt
+                        {renderedPrompt.missing.length > 0 && (
+                            <span className="ml-2 font-normal text-xs text-yellow-600 dark:text-yellow-400">
+                                unresolved: {renderedPrompt.missing.map(name => `{{${name}}}`).join(', ')}
+                            </span>
+                        )}
+                    </summary>
+                    <pre className="mt-2 p-2 max-h-64 overflow-y-auto whitespace-pre-wrap border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900/50 text-xs">{renderedPrompt.text}</pre>
+                </details>
+                {result?.tool_calls && result.tool_calls.length > 0 && (
+                    <details className="mt-2 text-sm">
+                        <summary className="cursor-pointer font-semibold">
+                            Tool calls ({result.tool_calls.length})
+                            {result.tool_calls.some(call => call.error) && <span className="ml-2 font-normal text-xs text-yellow-600 dark:text-yellow-400">{result.tool_calls.filter(call => call.error).length} failed</span>}
+                        </summary>
+                        <ol className="mt-2 space-y-2 list-decimal ml-5">
+                            {result.tool_calls.map((call, i) => (
+                                <li key={i}>
+                                    {call.ensemble_member && <span className="mr-2 text-xs text-gray-500 dark:text-gray-400">{call.ensemble_member}</span>}
+                                    <span className="font-mono text-xs">{call.name}({JSON.stringify(call.arguments)})</span>
+                                    <pre className={`mt-1 p-2 max-h-40 overflow-y-auto whitespace-pre-wrap border rounded-md text-xs ${call.error ? 'border-yellow-400 text-yellow-700 dark:text-yellow-400' : 'border-gray-300 dark:border-zinc-600 bg-gray-50 dark:bg-zinc-900/50'}`}>{call.result}</pre>
+                                </li>
+                            ))}
+                        </ol>
+                    </details>
+                )}
+                {result?.ensemble && <EnsemblePanel ensemble={result.ensemble} />}
+                {isExecuting && chunkProgress && (
+                    <div className="mt-4">
+                        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            <span>{chunkProgress.phase === 'reduce' ? `Merging ${chunkProgress.total} chunk outputs` : `${chunkProgress.phase === 'map' ? 'Map' : 'Refine'}: chunk ${Math.min(chunkProgress.completed + 1, chunkProgress.total)} of ${chunkProgress.total}`}</span>
+                            <span>{chunkProgress.completed}/{chunkProgress.total}</span>
+                        </div>
+                        <div className="w-full bg-gray-200 dark:bg-zinc-700 rounded-full h-1.5">
+                            <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${(chunkProgress.completed / chunkProgress.total) * 100}%` }}></div>
+                        </div>
+                    </div>
+                )}
+                {result && (
+                    <VariantPanel
+                        agent={agent}
+                        result={result}
+                        configuredModel={agentsConfig.agents.find(a => a.id === agentId)?.model}
+                        disabled={isExecuting || missing.length > 0}
+                        onRun={onRunVariants}
+                        onStop={onStopVariants}
+                        onPrefer={onPreferVariant}
+                        onPromote={onPromoteVariant}
+                    />
+                )}
                 <div className="mt-4 flex justify-between items-center">
-                     <button onClick={handleExecute} disabled={isExecuting || !input} className="py-2 px-4 text-sm font-medium rounded-lg transition-all bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
-                        {isExecuting ? 'Executing...' : '▶️ Execute Step'}
-                    </button>
+                    <div className="flex space-x-2">
+                        <button onClick={handleExecute} disabled={isExecuting || variantsRunning || missing.length > 0} className="py-2 px-4 text-sm font-medium rounded-lg transition-all bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed">
+                            {isExecuting ? 'Executing...' : '▶️ Execute Step'}
+                        </button>
+                        {isExecuting && (
+                            <button onClick={onStop} className="flex items-center space-x-1 py-2 px-4 text-sm font-medium rounded-lg transition-all bg-red-600 text-white hover:bg-red-700">
+                                <Square size={14} /><span>Stop</span>
+                            </button>
+                        )}
+                        {onResume && result && ['error', 'cancelled', 'pending'].includes(result.status) && (
+                            <button onClick={onResume} title="Run this step and everything after it, reusing completed upstream results" className="py-2 px-4 text-sm font-medium rounded-lg transition-all border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20">
+                                ⏩ Resume from here
+                            </button>
+                        )}
+                    </div>
                     {result && (
                         <div className="flex space-x-4 text-sm">
-                            <span className={`px-2 py-1 rounded-full ${result.status === 'completed' ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300'}`}>
+                            <span className={`px-2 py-1 rounded-full ${STATUS_CLASSES[result.status]}`}>
                                 {result.status}
                             </span>
-                             {result.latency !== undefined && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700">{result.latency.toFixed(2)}s</span>}
+                             {result.first_token_latency !== undefined && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700" title="Time to first token">TTFT {result.first_token_latency.toFixed(2)}s</span>}
+                             {result.latency !== undefined && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700" title="Total latency">{result.latency.toFixed(2)}s</span>}
+                             {result.usage && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700" title={`${result.usage.prompt_tokens} prompt / ${result.usage.completion_tokens} completion${result.usage.cached_tokens ? ` / ${result.usage.cached_tokens} cached` : ''} tokens`}>{result.usage.prompt_tokens + result.usage.completion_tokens} tok</span>}
+                             {!!result.fallback_index && <span className="px-2 py-1 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300" title={`Answered by fallback #${result.fallback_index}`}>{result.provider}/{result.model}</span>}
+                             {chunkProgress && !isExecuting && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700" title={`Input split into ${chunkProgress.total} chunks (${agent.chunking?.strategy})`}>{chunkProgress.total} chunks</span>}
+                             {result.cost !== undefined && <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-zinc-700">{formatCost(result.cost)}</span>}
+                             {retries > 0 && <span className="px-2 py-1 rounded-full bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300" title={result.attempts!.filter(at => !at.succeeded).map(at => `${at.ensemble_member ? `${at.ensemble_member} ` : ''}#${at.attempt}: ${at.error}`).join('\n')}>{retries} {retries === 1 ? 'retry' : 'retries'}</span>}
                         </div>
                     )}
                 </div>
                  {result?.error && <p className="text-red-500 text-sm mt-2">{result.error}</p>}
+                 {result?.status === 'error' && result.error_details && (
+                    <details className="text-xs text-red-500 mt-1">
+                        <summary className="cursor-pointer">Provider error details</summary>
+                        <ul className="list-disc ml-5 mt-1 font-mono whitespace-pre-wrap">
+                            {result.error_details.map((detail, i) => <li key={i}>{detail}</li>)}
+                        </ul>
+                    </details>
+                 )}
+                 {result?.on_error_applied && (
+                    <p className="text-yellow-600 dark:text-yellow-400 text-sm mt-1">
+                        on_error: {result.on_error_applied} — dependent steps ran with {result.on_error_applied === 'fallback' ? 'the fallback output' : 'an empty output'}.
+                    </p>
+                 )}
+                 {result?.status === 'skipped' && <p className="text-gray-500 dark:text-gray-400 text-sm mt-2">⏭ Skipped: {result.skip_reason}</p>}
+                 {result?.status === 'completed' && result.awaiting_approval && (
+                    <div className="mt-3 p-3 flex justify-between items-center rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm">
+                        <span className="text-amber-700 dark:text-amber-400">Awaiting reviewer approval; dependent steps are paused.</span>
+                        <button onClick={onApprove} disabled={!reviewerName || draft !== null} title={reviewerName ? undefined : 'Enter a reviewer name in the sidebar first'} className="py-1 px-3 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
+                            ✓ {t('approve')} &amp; {t('next')}
+                        </button>
+                    </div>
+                 )}
+                 {result?.approval && (
+                    <p className="text-green-600 dark:text-green-400 text-sm mt-2">✓ Approved by {result.approval.by} at {new Date(result.approval.at).toLocaleString()}</p>
+                 )}
+                 {result?.status === 'completed' && agent.output_schema && (
+                    result.validation_errors && result.validation_errors.length > 0 ? (
+                        <div className="text-yellow-600 dark:text-yellow-400 text-sm mt-2">
+                            <p>Output does not match output_schema{result.repair_attempts ? ` after ${result.repair_attempts} repair attempt(s)` : ''}:</p>
+                            <ul className="list-disc ml-5">
+                                {result.validation_errors.map((err, i) => <li key={i}>{err}</li>)}
+                            </ul>
+                        </div>
+                    ) : (
+                        <p className="text-green-600 dark:text-green-400 text-sm mt-2">
+                            ✓ Valid structured output{result.repair_attempts ? ` (repaired after ${result.repair_attempts} attempt(s))` : ''}
+                        </p>
+                    )
+                 )}
             </div>
             {!isLast && <div className="flex justify-center my-4"><ArrowDown className="text-gray-400 dark:text-zinc-500"/></div>}
         </div>
     );
 };
 
+const RunVariablesDialog: React.FC<{
+    variables: RunVariable[];
+    initialValues: Record<string, string>;
+    onSubmit: (values: Record<string, string>) => void;
+    onCancel: () => void;
+}> = ({ variables, initialValues, onSubmit, onCancel }) => {
+    const [values, setValues] = useState(() => resolveRunVariables(variables, initialValues));
+    const missing = getMissingRunVariables(variables, values);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+            <div className="w-full max-w-md p-6 bg-white dark:bg-zinc-800 rounded-lg shadow-xl space-y-4">
+                <h3 className="text-lg font-bold">Run Variables</h3>
+                {variables.map(variable => (
+                    <div key={variable.name}>
+                        <label className="text-sm font-medium">
+                            {variable.label || variable.name}{variable.required && <span className="text-red-500"> *</span>}
+                        </label>
+                        {variable.description && <p className="text-xs text-gray-500 dark:text-gray-400">{variable.description}</p>}
+                        <input
+                            type="text"
+                            value={values[variable.name]}
+                            onChange={(e) => setValues(prev => ({ ...prev, [variable.name]: e.target.value }))}
+                            className="w-full mt-1 p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm"
+                        />
+                    </div>
+                ))}
+                <div className="flex justify-end space-x-2">
+                    <button onClick={onCancel} className="py-2 px-4 text-sm font-medium rounded-lg border dark:border-zinc-600">Cancel</button>
+                    <button onClick={() => onSubmit(values)} disabled={missing.length > 0} className="py-2 px-4 text-sm font-bold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
+                        🚀 Run
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Picks a named pipeline from agents.yaml and saves the current selection back into one.
+const PipelineSelector: React.FC<{ disabled: boolean }> = ({ disabled }) => {
+    const { agentsConfig, setAgentsConfig, selectedAgentIds, runVariables, activePipelineId, selectPipeline } = useContext(AppContext);
+    const active = getPipeline(agentsConfig, activePipelineId);
+    const [name, setName] = useState('');
+
+    const modified = !!active && getPipelineAgentIds(active).join(',') !== selectedAgentIds.join(',');
+
+    const save = (pipelineName: string, previous?: typeof active) => {
+        const id = previous?.id || createPipelineId(agentsConfig, pipelineName);
+        const pipeline = createPipelineDefinition(id, pipelineName, selectedAgentIds, runVariables, previous);
+        setAgentsConfig(savePipeline(agentsConfig, pipeline));
+        selectPipeline(pipeline.id);
+        setName('');
+    };
+
+    return (
+        <div className="p-4 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="text-sm font-medium">Pipeline</label>
+                <select value={active?.id || ''} onChange={(e) => selectPipeline(e.target.value || null)} disabled={disabled} className="p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm">
+                    <option value="">Custom selection</option>
+                    {(agentsConfig.pipelines || []).map(pipeline => (
+                        <option key={pipeline.id} value={pipeline.id}>{pipeline.name}</option>
+                    ))}
+                </select>
+                {active && (
+                    <button onClick={() => save(active.name, active)} disabled={disabled || selectedAgentIds.length === 0} title="Save the current step order and run variables into this pipeline" className="flex items-center space-x-1 py-2 px-3 text-sm font-medium rounded-lg border dark:border-zinc-600 disabled:text-gray-400">
+                        <Save size={14} /><span>Save{modified ? ' changes' : ''}</span>
+                    </button>
+                )}
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="New pipeline name" className="p-2 bg-gray-50 dark:bg-zinc-700 border border-gray-300 dark:border-zinc-600 rounded-md text-sm" />
+                <button onClick={() => save(name.trim())} disabled={disabled || !name.trim() || selectedAgentIds.length === 0} className="flex items-center space-x-1 py-2 px-3 text-sm font-medium rounded-lg border dark:border-zinc-600 disabled:text-gray-400">
+                    <Save size={14} /><span>Save as new</span>
+                </button>
+                <button onClick={() => downloadFile(exportConfigYaml(agentsConfig), 'agents.yaml', 'text/yaml')} className="flex items-center space-x-1 py-2 px-3 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+                    <Download size={14} /><span>Export agents.yaml</span>
+                </button>
+            </div>
+            {active?.description && <p className="text-sm text-gray-500 dark:text-gray-400">{active.description}</p>}
+            {modified && <p className="text-xs text-amber-600 dark:text-amber-400">The selected agents differ from this pipeline's steps; save to keep the change.</p>}
+        </div>
+    );
+};
+
 const PipelineTab: React.FC = () => {
     const {
         selectedAgentIds,
         agentsConfig,
+        updateAgent,
+        runConfig,
         apiKeys,
         parsedText,
         pipelineResults,
+        setPipelineResults,
         updateSinglePipelineResult,
-        clearPipelineResults
+        runVariables,
+        setRunVariables,
+        reviewerName,
+        ocrJobs,
+        activeRun,
+        setActiveRun
     } = useContext(AppContext);
 
     const [isAllExecuting, setIsAllExecuting] = useState(false);
+    const [showVariablesDialog, setShowVariablesDialog] = useState(false);
+    const [graphErrors, setGraphErrors] = useState<string[]>([]);
+
+    // executeAll awaits steps from a single closure; read results through a ref so
+    // each step sees the outputs its predecessors just produced.
+    const resultsRef = useRef(pipelineResults);
+    resultsRef.current = pipelineResults;
+
+    // Parallel branches start as soon as a dependency finishes, before React re-renders,
+    // so the ref is updated synchronously as well.
+    const publish = (result: PipelineResult) => {
+        resultsRef.current = resultsRef.current.some(r => r.agent_id === result.agent_id)
+            ? resultsRef.current.map(r => r.agent_id === result.agent_id ? result : r)
+            : [...resultsRef.current, result];
+        updateSinglePipelineResult(result);
+    };
+
+    const runControllerRef = useRef<AbortController | null>(null);
+    const approvalWaitersRef = useRef<Record<string, () => void>>({});
+    const stepControllersRef = useRef<Record<string, AbortController>>({});
+    const variantControllersRef = useRef<Record<string, AbortController>>({});
 
     useEffect(() => {
-        // When selected agents change, clear old results
-        clearPipelineResults();
-        const initialResults: PipelineResult[] = selectedAgentIds.map((id, index) => {
-            const agent = agentsConfig.agents.find(a => a.id === id)!;
-            return {
-                step: index + 1,
-                agent_id: id,
-                agent_name: agent.name,
-                input: '',
-                output: '',
-                timestamp: 0,
-                status: 'pending'
-            };
-        });
-        initialResults.forEach(updateSinglePipelineResult);
+        // Keep results for agents that are still selected (a prompt tweak should not
+        // discard the last run); add pending entries for new ones and drop the rest.
+        setPipelineResults(prev => selectedAgentIds.map((id, index) => {
+            const agent = runConfig.agents.find(a => a.id === id)!;
+            const existing = prev.find(r => r.agent_id === id);
+            return existing
+                ? { ...existing, step: index + 1, agent_name: agent.name }
+                : createPendingResult(index + 1, id, agent.name);
+        }));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [selectedAgentIds, agentsConfig]);
+    }, [selectedAgentIds, runConfig]);
 
-    const executeStep = async (agentId: string) => {
-        const agent = agentsConfig.agents.find(a => a.id === agentId);
-        const result = pipelineResults.find(r => r.agent_id === agentId);
+    const persistRun = async (run: { id: string; started_at: number }, variables = runVariables) => {
+        try {
+            await saveRun(await createRunRecord(run, parsedText, runConfig, selectedAgentIds, variables, resultsRef.current, ocrJobs));
+        } catch (e) {
+            console.error('Failed to save run to history', e);
+        }
+    };
 
-        if (!agent || !result) return;
-        
-        const prevResult = result.step > 1 ? pipelineResults.find(r => r.step === result.step - 1) : null;
-        const input = result.step === 1 ? parsedText : (prevResult?.output || '');
+    const startNewRun = () => {
+        const run = { id: createRunId(), started_at: Date.now() };
+        setActiveRun(run);
+        return run;
+    };
 
-        if (!input) {
-            updateSinglePipelineResult({ ...result, status: 'error', error: 'Input is empty.' });
-            return;
+    const executeSingleStep = async (agentId: string) => {
+        const run = activeRun || startNewRun();
+        try {
+            await executeStep(agentId);
+        } finally {
+            await persistRun(run);
         }
+    };
 
+    const getContext = (variables = runVariables): PipelineContext => ({
+        config: runConfig,
+        selectedAgentIds,
+        document: parsedText,
+        apiKeys,
+        variables,
+        getResults: () => resultsRef.current,
+        publish,
+    });
+
+    // Each step gets its own controller so it can be stopped without stopping the run.
+    const executeStep = async (agentId: string, runSignal?: AbortSignal, variables = runVariables) => {
+        const controller = new AbortController();
+        stepControllersRef.current[agentId] = controller;
+        const abortStep = () => controller.abort();
+        runSignal?.addEventListener('abort', abortStep, { once: true });
         try {
-            const { output, latency, provider } = await runAgent(agent, input, apiKeys);
-            updateSinglePipelineResult({
-                ...result,
-                input,
-                output,
-                latency,
-                provider,
-                timestamp: Date.now(),
-                status: 'completed'
-            });
-        } catch (e) {
-            const errorMsg = e instanceof Error ? e.message : String(e);
-            updateSinglePipelineResult({ ...result, input, status: 'error', error: errorMsg, timestamp: Date.now() });
-            throw e; // re-throw to stop sequence execution
+            return await runPipelineStep(agentId, getContext(variables), controller.signal);
+        } finally {
+            runSignal?.removeEventListener('abort', abortStep);
+            delete stepControllersRef.current[agentId];
+        }
+    };
+
+    const saveEdit = (agentId: string, output: string) => {
+        const agent = runConfig.agents.find(a => a.id === agentId);
+        const result = resultsRef.current.find(r => r.agent_id === agentId);
+        if (!agent || !result || output === result.output) return;
+
+        const patch: Partial<PipelineResult> = {
+            output,
+            original_output: result.original_output ?? result.output,
+            edit: { by: reviewerName, at: Date.now() },
+        };
+        if (agent.output_schema) {
+            const parsed = parseJsonOutput(output);
+            patch.structured_output = parsed.value;
+            patch.validation_errors = parsed.error ? [parsed.error] : validateSchema(parsed.value, agent.output_schema);
+        }
+        // An approval covers the text that was approved; editing afterwards needs a new sign-off.
+        if (agent.requires_approval) {
+            patch.approval = undefined;
+            patch.awaiting_approval = true;
+        }
+        publish({ ...result, ...patch });
+        if (activeRun) persistRun(activeRun);
+    };
+
+    const approveStep = (agentId: string) => {
+        const result = resultsRef.current.find(r => r.agent_id === agentId);
+        if (!result) return;
+        publish({ ...result, awaiting_approval: false, approval: { by: reviewerName, at: Date.now() } });
+        approvalWaitersRef.current[agentId]?.();
+        if (activeRun) persistRun(activeRun);
+    };
+
+    const waitForApproval = (agentId: string, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (!resultsRef.current.find(r => r.agent_id === agentId)?.awaiting_approval) return resolve();
+        const onAbort = () => {
+            delete approvalWaitersRef.current[agentId];
+            reject(signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        approvalWaitersRef.current[agentId] = () => {
+            delete approvalWaitersRef.current[agentId];
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        };
+    });
+
+    const stopStep = (agentId: string) => {
+        stepControllersRef.current[agentId]?.abort();
+    };
+
+    // Variants run in parallel on the step's current input; each update replaces that variant only.
+    const runVariants = async (agentId: string, models: Agent['model'][]) => {
+        const result = resultsRef.current.find(r => r.agent_id === agentId);
+        if (!result || result.status === 'running' || variantControllersRef.current[agentId]) return;
+        const controller = new AbortController();
+        variantControllersRef.current[agentId] = controller;
+        const run = activeRun || startNewRun();
+        const variants: StepVariant[] = models.map(model => ({ id: createVariantId(), model, status: 'running', output: '', timestamp: Date.now() }));
+        publish({ ...result, variants, preferred_variant: undefined });
+        const setVariant = (variant: StepVariant) => {
+            const current = resultsRef.current.find(r => r.agent_id === agentId)!;
+            publish({ ...current, variants: (current.variants || []).map(v => v.id === variant.id ? variant : v) });
+        };
+        try {
+            await Promise.all(variants.map(v => runStepVariant(agentId, v.id, v.model, getContext(), setVariant, controller.signal)));
+        } finally {
+            delete variantControllersRef.current[agentId];
+            await persistRun(run);
         }
     };
+
+    const preferVariant = (agentId: string, variantId: string) => {
+        const result = resultsRef.current.find(r => r.agent_id === agentId);
+        if (!result) return;
+        publish({ ...result, preferred_variant: variantId });
+        if (activeRun) persistRun(activeRun);
+    };
+
+    // Writes the preferred variant's model into agents.yaml; the step's own output is not re-run.
+    const promotePreferredVariant = (agentId: string) => {
+        const result = resultsRef.current.find(r => r.agent_id === agentId);
+        const variant = result?.variants?.find(v => v.id === result.preferred_variant);
+        const agent = agentsConfig.agents.find(a => a.id === agentId);
+        if (variant && agent) updateAgent(promoteVariant(agent, variant));
+    };
     
-    const executeAll = async () => {
+    // With `reuse`, the listed steps keep their results and the run continues the active one.
+    const executeAll = async (variables = runVariables, reuse: string[] = []) => {
+        const problems = validateDependencies(buildDependencyMap(runConfig.agents, selectedAgentIds));
+        setGraphErrors(problems);
+        if (problems.length > 0) return;
+
+        const controller = new AbortController();
+        runControllerRef.current = controller;
         setIsAllExecuting(true);
-        for (const agentId of selectedAgentIds) {
-            try {
-                await executeStep(agentId);
-            } catch (e) {
-                console.error(`Execution stopped at agent ${agentId}`, e);
-                break; // Stop if any step fails
-            }
+        const run = (reuse.length > 0 && activeRun) || startNewRun();
+        // Everything not reused starts over, so a step the run never reaches is saved as not run rather than with last run's output.
+        resultsRef.current = resultsRef.current.map(r => reuse.includes(r.agent_id) ? r : createPendingResult(r.step, r.agent_id, r.agent_name));
+        setPipelineResults(resultsRef.current);
+
+        try {
+            await runPipeline(getContext(variables), {
+                signal: controller.signal,
+                runStep: (agentId, signal) => executeStep(agentId, signal, variables),
+                waitForApproval,
+                reuse,
+            });
+        } finally {
+            await persistRun(run, variables);
+            runControllerRef.current = null;
+            setIsAllExecuting(false);
         }
-        setIsAllExecuting(false);
     };
 
+    // Re-runs `fromAgentId` and its dependents plus any step that has not completed; other results are reused.
+    const resumeFrom = (fromAgentId?: string) => {
+        const downstream = fromAgentId ? getDownstream(buildDependencyMap(runConfig.agents, selectedAgentIds), fromAgentId) : new Set<string>();
+        const reuse = resultsRef.current
+            .filter(r => (r.status === 'completed' || r.status === 'skipped') && !downstream.has(r.agent_id))
+            .map(r => r.agent_id);
+        executeAll(runVariables, reuse);
+    };
+
+    const startRun = () => {
+        if (runConfig.variables && runConfig.variables.length > 0) {
+            setShowVariablesDialog(true);
+        } else {
+            executeAll();
+        }
+    };
+
+    const stopAll = () => {
+        runControllerRef.current?.abort();
+    };
+
+
+    const failedResults = pipelineResults.filter(r => r.status === 'error' || r.status === 'cancelled');
+    const notRunCount = pipelineResults.filter(r => r.status === 'pending').length;
 
     if (selectedAgentIds.length === 0) {
-        return <div className="text-center p-8 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md"><p>Please select agents in the 'Agent Configuration' tab first.</p></div>;
+        return (
+            <div className="max-w-4xl mx-auto space-y-6">
+                <PipelineSelector disabled={false} />
+                <div className="text-center p-8 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md"><p>Please select a pipeline above or select agents in the 'Agent Configuration' tab first.</p></div>
+            </div>
+        );
     }
 
     return (
         <div className="max-w-4xl mx-auto space-y-6">
+            <PipelineSelector disabled={isAllExecuting} />
             <div className="flex justify-between items-center">
                  <h2 className="text-xl font-bold">Execution Pipeline</h2>
-                 <button onClick={executeAll} disabled={isAllExecuting} className="py-2 px-6 text-sm font-bold rounded-lg transition-all bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
-                     {isAllExecuting ? 'Executing...' : '🚀 Execute All'}
-                 </button>
+                 <div className="flex space-x-2">
+                     <button onClick={startRun} disabled={isAllExecuting} className="py-2 px-6 text-sm font-bold rounded-lg transition-all bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-400">
+                         {isAllExecuting ? 'Executing...' : '🚀 Execute All'}
+                     </button>
+                     {isAllExecuting && (
+                         <button onClick={stopAll} className="flex items-center space-x-1 py-2 px-6 text-sm font-bold rounded-lg transition-all bg-red-600 text-white hover:bg-red-700">
+                             <Square size={14} /><span>Stop All</span>
+                         </button>
+                     )}
+                 </div>
             </div>
+            {showVariablesDialog && (
+                <RunVariablesDialog
+                    variables={runConfig.variables || []}
+                    initialValues={runVariables}
+                    onCancel={() => setShowVariablesDialog(false)}
+                    onSubmit={(values) => {
+                        setShowVariablesDialog(false);
+                        setRunVariables(values);
+                        executeAll(values);
+                    }}
+                />
+            )}
+            {graphErrors.length > 0 && (
+                <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm">
+                    <p className="font-semibold">The pipeline's inputs cannot be resolved:</p>
+                    <ul className="list-disc ml-5">
+                        {graphErrors.map((err, i) => <li key={i}>{err}</li>)}
+                    </ul>
+                </div>
+            )}
+            {!isAllExecuting && failedResults.length > 0 && (
+                <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm space-y-2">
+                    <div className="flex justify-between items-center">
+                        <p className="font-semibold text-red-600 dark:text-red-400">
+                            Run summary: {failedResults.length} step(s) failed{notRunCount > 0 ? `, ${notRunCount} not run` : ''}
+                        </p>
+                        <button onClick={() => resumeFrom()} className="py-1 px-3 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+                            ⏩ Resume failed steps
+                        </button>
+                    </div>
+                    <ul className="space-y-1">
+                        {failedResults.map(r => (
+                            <li key={r.agent_id}>
+                                <span className="font-medium">Step {r.step}: {r.agent_name}</span>
+                                <span className="text-gray-500 dark:text-gray-400"> ({r.status}{r.on_error_applied ? `, on_error: ${r.on_error_applied}` : ''})</span>
+                                {r.error && <span className="text-red-600 dark:text-red-400"> — {r.error}</span>}
+                                {r.error_details && r.error_details.length > 0 && (
+                                    <ul className="list-disc ml-5 text-xs font-mono text-red-500 whitespace-pre-wrap">
+                                        {r.error_details.map((detail, i) => <li key={i}>{detail}</li>)}
+                                    </ul>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             {selectedAgentIds.map((id, index) => (
                 <PipelineStep
                     key={id}
                     agentId={id}
                     step={index + 1}
                     isLast={index === selectedAgentIds.length - 1}
-                    onExecute={() => executeStep(id)}
+                    onExecute={() => executeSingleStep(id)}
+                    onStop={() => stopStep(id)}
+                    onSaveEdit={(output) => saveEdit(id, output)}
+                    onApprove={() => approveStep(id)}
+                    onResume={isAllExecuting ? undefined : () => resumeFrom(id)}
+                    onRunVariants={(models) => runVariants(id, models)}
+                    onStopVariants={() => variantControllersRef.current[id]?.abort()}
+                    onPreferVariant={(variantId) => preferVariant(id, variantId)}
+                    onPromoteVariant={() => promotePreferredVariant(id)}
                 />
             ))}
         </div>
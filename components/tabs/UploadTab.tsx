@@ -1,19 +1,29 @@
 
-import React, { useState, useContext, useCallback } from 'react';
+import React, { useState, useContext, useRef } from 'react';
 import { AppContext } from '../../AppContext';
-import { Upload, FileText, Type } from 'lucide-react';
-import { parsePdfToText, parsePdfWithLLM, parsePlainText } from '../../services/parsingService';
+import { Upload, FileText, Type, Square } from 'lucide-react';
+import { parseFile } from '../../services/parsingService';
+import { listProviders } from '../../services/providers';
+import { isAbortError } from '../../services/llmService';
+import { estimateTokens, formatCost } from '../../services/costService';
+import { FILE_SEPARATOR } from '../../constants';
+import type { OcrSettings } from '../../types';
 
 const UploadTab: React.FC = () => {
-    const { parsedText, setParsedText, apiKeys } = useContext(AppContext);
+    const { parsedText, setParsedText, apiKeys, agentsConfig, ocrJobs, addOcrJob } = useContext(AppContext);
     const [inputMethod, setInputMethod] = useState<'upload' | 'paste'>('upload');
     const [ocrMethod, setOcrMethod] = useState<'standard' | 'advanced'>('standard');
-    const [ocrProvider, setOcrProvider] = useState<'gemini' | 'openai'>('gemini');
-    const [ocrModel, setOcrModel] = useState({ gemini: 'gemini-2.5-flash', openai: 'gpt-4o' });
+    const visionProviders = listProviders().filter(p => p.defaultVisionModel);
+    const [ocrProvider, setOcrProvider] = useState<string>('gemini');
+    const [ocrModel, setOcrModel] = useState<Record<string, string>>(() =>
+        Object.fromEntries(visionProviders.map(p => [p.id, p.defaultVisionModel!]))
+    );
     const [isLoading, setIsLoading] = useState(false);
     const [progress, setProgress] = useState(0);
     const [progressText, setProgressText] = useState('');
     const [error, setError] = useState('');
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const ocrSettings: OcrSettings = { method: ocrMethod, provider: ocrProvider, model: ocrModel[ocrProvider] };
 
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const files = event.target.files;
@@ -24,42 +34,38 @@ const UploadTab: React.FC = () => {
         setProgress(0);
         setProgressText('Starting processing...');
         
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         const parsedChunks: string[] = [];
 
         try {
             // FIX: Use a standard for-loop to iterate through the FileList to ensure proper typing.
             for (let i = 0; i < files.length; i++) {
-                const file = files[i];
-                if (file.type === 'application/pdf') {
-                    if (ocrMethod === 'advanced') {
-                        const modelToUse = ocrProvider === 'gemini' ? ocrModel.gemini : ocrModel.openai;
-                        parsedChunks.push(await parsePdfWithLLM(file, ocrProvider, modelToUse, apiKeys, (p, t) => {
-                            setProgress(p);
-                            setProgressText(t);
-                        }));
-                    } else {
-                        setProgressText(`Parsing ${file.name} with standard method...`);
-                        parsedChunks.push(await parsePdfToText(file));
-                        setProgress(1);
-                    }
-                } else {
-                    setProgressText(`Parsing ${file.name}...`);
-                    parsedChunks.push(await parsePlainText(file));
-                    setProgress(1);
-                }
+                const { text, ocrJob } = await parseFile(files[i], ocrSettings, apiKeys, agentsConfig.pricing, (p, t) => {
+                    setProgress(p);
+                    if (t) setProgressText(t);
+                }, controller.signal, true);
+                parsedChunks.push(text);
+                if (ocrJob) addOcrJob(ocrJob);
             }
-            setParsedText(parsedChunks.join('\n\n---\nFile Separator\n---\n\n'));
+            setParsedText(parsedChunks.join(FILE_SEPARATOR));
         } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : String(e);
-            setError(`Failed to process files: ${errorMessage}`);
+            if (isAbortError(e)) {
+                setError('Processing was cancelled. The previously parsed text was kept.');
+            } else {
+                const errorMessage = e instanceof Error ? e.message : String(e);
+                setError(`Failed to process files: ${errorMessage}`);
+            }
         } finally {
+            abortControllerRef.current = null;
+            event.target.value = '';
             setIsLoading(false);
             setProgress(0);
             setProgressText('');
         }
     };
 
-    const estimateTokens = useCallback((text: string) => Math.max(1, Math.round(text.length / 4)), []);
+    const lastOcrJob = ocrJobs[ocrJobs.length - 1];
     
     return (
         <div className="max-w-4xl mx-auto space-y-8">
@@ -77,14 +83,15 @@ const UploadTab: React.FC = () => {
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div>
                                     <label className="text-sm font-medium">LLM Provider</label>
-                                    <select value={ocrProvider} onChange={(e) => setOcrProvider(e.target.value as 'gemini' | 'openai')} className="w-full mt-1 p-2 bg-white dark:bg-zinc-600 border border-gray-300 dark:border-zinc-500 rounded-md text-sm">
-                                        <option value="gemini">Gemini</option>
-                                        <option value="openai">OpenAI</option>
+                                    <select value={ocrProvider} onChange={(e) => setOcrProvider(e.target.value)} className="w-full mt-1 p-2 bg-white dark:bg-zinc-600 border border-gray-300 dark:border-zinc-500 rounded-md text-sm">
+                                        {visionProviders.map(provider => (
+                                            <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                        ))}
                                     </select>
                                 </div>
                                 <div>
                                     <label className="text-sm font-medium">Vision Model Name</label>
-                                    <input type="text" value={ocrProvider === 'gemini' ? ocrModel.gemini : ocrModel.openai} onChange={(e) => setOcrModel(prev => ({ ...prev, [ocrProvider]: e.target.value }))} className="w-full mt-1 p-2 bg-white dark:bg-zinc-600 border border-gray-300 dark:border-zinc-500 rounded-md text-sm"/>
+                                    <input type="text" value={ocrModel[ocrProvider] || ''} onChange={(e) => setOcrModel(prev => ({ ...prev, [ocrProvider]: e.target.value }))} className="w-full mt-1 p-2 bg-white dark:bg-zinc-600 border border-gray-300 dark:border-zinc-500 rounded-md text-sm"/>
                                 </div>
                             </div>
                         </div>
@@ -126,6 +133,11 @@ const UploadTab: React.FC = () => {
                             <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress * 100}%` }}></div>
                         </div>
                         <p className="text-sm text-center mt-2 text-gray-600 dark:text-gray-300">{progressText}</p>
+                        <div className="flex justify-center mt-2">
+                            <button onClick={() => abortControllerRef.current?.abort()} className="flex items-center space-x-1 py-1 px-4 text-sm font-medium rounded-lg bg-red-600 text-white hover:bg-red-700">
+                                <Square size={14} /><span>Stop</span>
+                            </button>
+                        </div>
                     </div>
                 )}
                 {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
@@ -135,6 +147,11 @@ const UploadTab: React.FC = () => {
                 <div className="p-6 bg-white dark:bg-zinc-800/50 rounded-lg shadow-md border border-gray-200 dark:border-zinc-700">
                     <h3 className="font-bold mb-2">Preview Parsed Text</h3>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">Estimated Tokens: {estimateTokens(parsedText)}</p>
+                    {lastOcrJob && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                            Last OCR job ({lastOcrJob.file_name}, {lastOcrJob.pages} pages, {lastOcrJob.model}): {lastOcrJob.usage.prompt_tokens} prompt + {lastOcrJob.usage.completion_tokens} completion tokens, {formatCost(lastOcrJob.cost)}
+                        </p>
+                    )}
                     <textarea 
                         className="w-full h-48 p-2 border border-gray-300 dark:border-zinc-600 rounded-md bg-gray-50 dark:bg-zinc-900"
                         value={parsedText.substring(0, 5000) + (parsedText.length > 5000 ? '...' : '')}
@@ -1,5 +1,5 @@
 
-import type { Theme, Translation } from './types';
+import type { ModelPrice, Theme, Translation } from './types';
 
 export const ANIMAL_THEMES: Record<string, Theme> = {
     "Ferrari": {"primary": "#D32F2F", "secondary": "#1E1E1E", "accent": "#FF5252", "emoji": "🏎️"},
@@ -46,6 +46,8 @@ export const TRANSLATIONS: Translation = {
         "output": "Output",
         "modify": "Modify",
         "next": "Next",
+        "approve": "Approve",
+        "reviewer": "Reviewer",
         "completion_rate": "Completion Rate",
         "tokens": "Tokens",
         "latency": "Latency",
@@ -75,6 +77,8 @@ export const TRANSLATIONS: Translation = {
         "output": "輸出",
         "modify": "修改",
         "next": "下一步",
+        "approve": "核准",
+        "reviewer": "審查者",
         "completion_rate": "完成率",
         "tokens": "標記",
         "latency": "延遲",
@@ -85,7 +89,56 @@ export const TRANSLATIONS: Translation = {
     }
 };
 
+// USD per million tokens. Matched by exact model name, then by longest prefix
+// (so dated snapshots like gpt-4o-mini-2024-07-18 resolve to gpt-4o-mini).
+// Override or extend with a `pricing:` section in agents.yaml.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    "gpt-4o": { "input": 2.50, "output": 10.00, "cached_input": 1.25 },
+    "gpt-4o-mini": { "input": 0.15, "output": 0.60, "cached_input": 0.075 },
+    "gpt-4.1": { "input": 2.00, "output": 8.00, "cached_input": 0.50 },
+    "gpt-4.1-mini": { "input": 0.40, "output": 1.60, "cached_input": 0.10 },
+    "gpt-4.1-nano": { "input": 0.10, "output": 0.40, "cached_input": 0.025 },
+    "gemini-2.5-pro": { "input": 1.25, "output": 10.00, "cached_input": 0.31 },
+    "gemini-2.5-flash": { "input": 0.30, "output": 2.50, "cached_input": 0.075 },
+    "gemini-2.5-flash-lite": { "input": 0.10, "output": 0.40, "cached_input": 0.025 },
+    "claude-opus-4-1": { "input": 15.00, "output": 75.00, "cached_input": 1.50 },
+    "claude-sonnet-4-5": { "input": 3.00, "output": 15.00, "cached_input": 0.30 },
+    "claude-haiku-4-5": { "input": 1.00, "output": 5.00, "cached_input": 0.10 },
+    "echo": { "input": 0, "output": 0 }
+};
+
+// Context windows in tokens; looked up by exact name, then longest prefix (like the price table).
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, number> = {
+    "gpt-4o": 128000,
+    "gpt-4.1": 1047576,
+    "gemini-2.5": 1048576,
+    "claude": 200000,
+    "echo": 8192
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+
+export const DEFAULT_COMPARISON_CATEGORIES = ['Indications for Use', 'Technological Characteristics', 'Materials', 'Performance Testing'];
+
+export const PAGE_SEPARATOR = '\n\n---\nPage Separator\n---\n\n';
+export const FILE_SEPARATOR = '\n\n---\nFile Separator\n---\n\n';
+
+// Documents the batch queue runs at the same time unless the user picks another limit.
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
 export const DEFAULT_SAMPLE_AGENTS = `version: 1
+variables:
+  - name: device_name
+    label: Device name
+    required: true
+  - name: product_code
+    label: Product code
+    description: Three-letter FDA product code, if known
+    default: unknown
+  - name: predicate_k_number
+    label: Predicate K-number
+    description: e.g. K123456
+    default: not specified
 agents:
   - id: summarizer
     name: Summary Generator
@@ -96,8 +149,23 @@ agents:
       name: gemini-2.5-flash
       temperature: 0.25
       max_tokens: 4096
+    retry:
+      max_attempts: 4
+      initial_delay_ms: 2000
+      max_delay_ms: 30000
+    chunking:
+      strategy: map-reduce
+      overlap_pages: 1
+    fallbacks:
+      - provider: openai
+        name: gpt-4o-mini
+        timeout_ms: 120000
+      - provider: anthropic
+        name: claude-haiku-4-5
+    inputs: [document]
     prompt: |
       You are a senior FDA medical device submission summarization expert.
+      Device under review: {{vars.device_name}} (product code {{vars.product_code}}, predicate {{vars.predicate_k_number}}).
       Goals:
       - Read the input document text (parsed from PDFs or pasted content).
       - Produce a structured, precise, and complete summary in English.
@@ -119,6 +187,22 @@ agents:
       name: gpt-4o-mini
       temperature: 0.25
       max_tokens: 4096
+    output_schema:
+      type: object
+      required: [clinical_evidence, safety_data, adverse_events, performance_testing, bench_testing, biocompatibility, sterilization, usability, notes]
+      properties:
+        clinical_evidence: { type: array, items: { type: string } }
+        safety_data: { type: array, items: { type: string } }
+        adverse_events: { type: array, items: { type: string } }
+        performance_testing: { type: array, items: { type: string } }
+        bench_testing: { type: array, items: { type: string } }
+        biocompatibility: { type: array, items: { type: string } }
+        sterilization: { type: array, items: { type: string } }
+        usability: { type: array, items: { type: string } }
+        notes: { type: string }
+    inputs: [document]
+    on_error: fallback
+    fallback_output: '{"clinical_evidence": [], "safety_data": [], "adverse_events": [], "performance_testing": [], "bench_testing": [], "biocompatibility": [], "sterilization": [], "usability": [], "notes": "Evidence extraction failed; review the source document manually."}'
     prompt: |
       You are a clinical evidence and safety data extraction expert for FDA 510(k) submissions.
       Task:
@@ -136,8 +220,11 @@ agents:
       name: gemini-2.5-flash
       temperature: 0.2
       max_tokens: 4096
-    prompt: |
+    inputs: [document]
+    requires_approval: true
+    prompt: &compliance_prompt |
       You are an FDA 510(k) compliance checker.
+      Device under review: {{vars.device_name}} (product code {{vars.product_code}}); the claimed predicate is {{vars.predicate_k_number}}.
       Task:
       - Review content and assess compliance across categories: Indications for Use, Substantial Equivalence, Labeling, Device Description, Performance Testing, Biocompatibility, Sterilization, Software/Usability, Risk Management, Clinical Evidence.
       - Mark each item as [YES] or [NO] for compliance presence, and provide short justification.
@@ -146,4 +233,149 @@ agents:
         - Category: <name> [YES|NO]
         - Rationale: <1-3 sentences>
       - End with a "Summary PASS/FAIL" line with rationale. Avoid chain-of-thought; report findings only.
+  - id: compliance_consensus
+    name: Compliance Consensus (3 models)
+    description: Opt-in second opinion; the compliance check on three providers, merged by majority vote. Needs Gemini, OpenAI and Anthropic keys.
+    enabled: false
+    model:
+      provider: gemini
+      name: gemini-2.5-flash
+      temperature: 0.2
+      max_tokens: 4096
+    ensemble:
+      merge: majority
+      models:
+        - provider: gemini
+          name: gemini-2.5-flash
+        - provider: openai
+          name: gpt-4o-mini
+        - provider: anthropic
+          name: claude-haiku-4-5
+    inputs: [document]
+    prompt: *compliance_prompt
+  - id: deficiency_letter
+    name: Deficiency Letter Drafter
+    description: Draft an Additional Information request when the compliance check fails
+    enabled: true
+    model:
+      provider: gemini
+      name: gemini-2.5-flash
+      temperature: 0.3
+      max_tokens: 4096
+    inputs: [document, compliance_checker]
+    when: 'steps.compliance_checker.output matches "Summary[ :=*-]*(PASS/FAIL[ :=*-]*)?FAIL"'
+    prompt: |
+      You are an FDA lead reviewer drafting an Additional Information (AI) request for {{vars.device_name}}.
+      Task:
+      - Using the compliance report and the source submission, list each deficiency as a numbered request.
+      - For each: state the deficiency, cite the relevant guidance or regulation where known, and say precisely what the sponsor must provide.
+      - Keep a formal, neutral tone. Do not restate items that were found compliant.
+  - id: risk_reviewer
+    name: Risk Reviewer
+    description: Cross-check the summary's stated risks against the reported adverse events
+    enabled: true
+    model:
+      provider: gemini
+      name: gemini-2.5-flash
+      temperature: 0.2
+      max_tokens: 2048
+    inputs: [summarizer, evidence_extractor]
+    input_transforms:
+      - source: summarizer
+        section: Key Risks and Mitigations
+      - source: evidence_extractor
+        json_path: adverse_events
+    tools: [search_document, get_page, calculate]
+    prompt: |
+      You are an FDA risk management reviewer for {{vars.device_name}}.
+      Task:
+      - Compare the sponsor's key risks and mitigations with the adverse events reported in the submission.
+      - Use search_document and get_page to check the source submission for events or mitigations the input does not show, and calculate for event rates.
+      - List adverse events that no stated risk or mitigation covers, and risks whose mitigation is not supported by evidence.
+      Output:
+      - A short markdown report with "Uncovered Adverse Events" and "Unsupported Mitigations" sections; write "None" when a section is empty.
+pipelines:
+  - id: k510_triage
+    name: 510(k) triage
+    description: Quick compliance screen with a draft deficiency letter; no reviewer sign-off
+    steps:
+      - summarizer
+      - agent: compliance_checker
+        requires_approval: false
+      - deficiency_letter
+  - id: full_review
+    name: Full review
+    description: Every agent, with reviewer approval of the compliance check
+    steps:
+      - summarizer
+      - evidence_extractor
+      - risk_reviewer
+      - compliance_checker
+      - deficiency_letter
+comparator:
+  name: Subject vs. predicate comparison
+  agents: [summarizer, evidence_extractor]
+  slot_variable: device_name
+  categories:
+    - Indications for Use
+    - Technological Characteristics
+    - Materials
+    - Performance Testing
+  model:
+    provider: gemini
+    name: gemini-2.5-flash
+    temperature: 0.1
+  prompt: |
+    You are an FDA 510(k) reviewer assessing substantial equivalence.
+    The input holds the extracted summary and evidence for the subject device and each predicate device.
+    For each category, state briefly what each device's documents say, quoting specifics such as indications, dimensions, materials and test results.
+    Assess the subject against the predicates: same, similar (differences that raise no new questions of safety or effectiveness), different, or not_provided.
+    Explain any difference in the notes, and end with a one-paragraph conclusion on substantial equivalence.
+evals:
+  judge_model:
+    provider: gemini
+    name: gemini-2.5-flash
+    temperature: 0
+    max_tokens: 1024
+  cases:
+    - id: checker_missing_biocompat
+      name: Compliance checker flags missing biocompatibility
+      agent: compliance_checker
+      variables:
+        device_name: FlexiCath Catheter
+        product_code: DQY
+      document: |
+        510(k) Summary: FlexiCath Catheter
+        Indications for Use: The FlexiCath is intended for short-term vascular access in adults.
+        Predicate Device: K123456 (AccessCath).
+        Device Description: A 7 Fr polyurethane catheter with a hydrophilic coating.
+        Performance Testing: Tensile strength, flow rate and kink resistance met ISO 10555-1.
+        Sterilization: Ethylene oxide, validated to SAL 10^-6 per ISO 11135.
+        Labeling: Instructions for use and package labels are provided.
+      assertions:
+        - type: category
+          category: Indications for Use
+          expected: "YES"
+        - type: category
+          category: Biocompatibility
+          expected: "NO"
+        - type: regex
+          pattern: 'Summary\\s*(PASS|FAIL)'
+          flags: i
+      judge:
+        rubric: |
+          The report must mark Biocompatibility as missing, because the summary cites no ISO 10993 testing,
+          and must not invent testing that the document does not mention.
+    - id: summary_mentions_predicate
+      name: Summary names the predicate
+      agent: summarizer
+      variables:
+        device_name: FlexiCath Catheter
+      document: |
+        510(k) Summary: FlexiCath Catheter
+        Predicate Device: K123456 (AccessCath).
+        Indications for Use: Short-term vascular access in adults.
+      assertions:
+        - type: contains
+          value: K123456
 `;
@@ -0,0 +1,224 @@
+import type { AgentsConfig, ApiKeys, BatchJob, BatchJobStatus, OcrSettings, PipelineResult } from '../types';
+import { parseFile } from './parsingService';
+import { isAbortError } from './llmService';
+import { createPendingResults, runPipeline } from './pipelineService';
+import { createRunId, createRunRecord, saveRun, summarizeResults } from './historyService';
+import { generateCsvReport, generateJsonReport, generateMarkdownReport, toCsvCell } from './reportService';
+import { createZip, ZipEntry } from './zipService';
+
+export interface BatchOptions {
+    config: AgentsConfig;
+    selectedAgentIds: string[];
+    apiKeys: ApiKeys;
+    variables: Record<string, string>;
+    ocr: OcrSettings;
+    concurrency: number;
+}
+
+export type BatchState = 'idle' | 'running' | 'paused';
+
+// The queue lives outside React so it keeps running while the user switches tabs.
+let jobs: BatchJob[] = [];
+const files = new Map<string, File>();
+const listeners = new Set<() => void>();
+let state: BatchState = 'idle';
+let controller: AbortController | null = null;
+let resumeWaiters: (() => void)[] = [];
+
+function notify() {
+    listeners.forEach(listener => listener());
+}
+
+export function onBatchChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getBatchJobs(): BatchJob[] {
+    return jobs;
+}
+
+export function getBatchState(): BatchState {
+    return state;
+}
+
+function updateJob(id: string, patch: Partial<BatchJob>) {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+    notify();
+}
+
+export function enqueueBatch(fileList: File[]) {
+    const added = fileList.map(file => {
+        const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        files.set(id, file);
+        return { id, file_name: file.name, status: 'queued' as const, results: [], ocr_jobs: [] };
+    });
+    jobs = [...jobs, ...added];
+    notify();
+}
+
+// Queued jobs can always be removed; others only while the batch is not running.
+export function removeBatchJob(id: string) {
+    const job = jobs.find(j => j.id === id);
+    if (!job || (state !== 'idle' && job.status !== 'queued')) return;
+    files.delete(id);
+    jobs = jobs.filter(job => job.id !== id);
+    notify();
+}
+
+// Puts failed and cancelled documents back in the queue.
+export function requeueFailedJobs() {
+    jobs = jobs.map(job => job.status === 'error' || job.status === 'cancelled'
+        ? { ...job, status: 'queued', error: undefined, results: [], run_id: undefined, finished_at: undefined }
+        : job);
+    notify();
+}
+
+// Drops finished and queued jobs; only allowed while nothing is running.
+export function clearBatch() {
+    if (state !== 'idle') return;
+    files.clear();
+    jobs = [];
+    notify();
+}
+
+// Running documents finish; no new document starts until resumeBatch.
+export function pauseBatch() {
+    if (state !== 'running') return;
+    state = 'paused';
+    notify();
+}
+
+export function resumeBatch() {
+    if (state !== 'paused') return;
+    state = 'running';
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+    notify();
+}
+
+// Cancels running documents and everything still queued.
+export function stopBatch() {
+    if (state === 'idle') return;
+    controller?.abort();
+    jobs = jobs.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job);
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+    notify();
+}
+
+function getFinalStatus(results: PipelineResult[], signal: AbortSignal): BatchJobStatus {
+    if (results.some(r => r.awaiting_approval)) return 'awaiting_approval';
+    if (signal.aborted || results.some(r => r.status === 'cancelled')) return 'cancelled';
+    if (results.some(r => r.status === 'error' || r.status === 'pending')) return 'error';
+    return 'completed';
+}
+
+async function processJob(job: BatchJob, options: BatchOptions, signal: AbortSignal) {
+    const file = files.get(job.id);
+    if (!file) return;
+    const run = { id: createRunId(), started_at: Date.now() };
+    updateJob(job.id, { status: 'parsing', started_at: run.started_at, error: undefined, results: [], ocr_jobs: [] });
+
+    let results: PipelineResult[] = [];
+    try {
+        const { text, ocrJob } = await parseFile(file, options.ocr, options.apiKeys, options.config.pricing, (_, progressText) => {
+            if (progressText) updateJob(job.id, { progress_text: progressText });
+        }, signal);
+        const ocrJobs = ocrJob ? [ocrJob] : [];
+        results = createPendingResults(options.config.agents, options.selectedAgentIds);
+        updateJob(job.id, { status: 'running', progress_text: undefined, document: text, ocr_jobs: ocrJobs, results });
+
+        await runPipeline({
+            config: options.config,
+            selectedAgentIds: options.selectedAgentIds,
+            document: text,
+            apiKeys: options.apiKeys,
+            variables: options.variables,
+            getResults: () => results,
+            publish: result => {
+                results = results.map(r => r.agent_id === result.agent_id ? result : r);
+                updateJob(job.id, { results });
+            },
+        }, { signal });
+
+        const status = getFinalStatus(results, signal);
+        try {
+            await saveRun(await createRunRecord(run, text, options.config, options.selectedAgentIds, options.variables, results, ocrJobs));
+            updateJob(job.id, { status, run_id: run.id, finished_at: Date.now() });
+        } catch (e) {
+            // The results stay on the job; only the history entry (and opening it from there) is missing.
+            updateJob(job.id, { status, error: `Could not save the run to history: ${e instanceof Error ? e.message : String(e)}`, finished_at: Date.now() });
+        }
+    } catch (e) {
+        updateJob(job.id, {
+            status: isAbortError(e) ? 'cancelled' : 'error',
+            error: isAbortError(e) ? undefined : (e instanceof Error ? e.message : String(e)),
+            progress_text: undefined,
+            finished_at: Date.now(),
+        });
+    }
+}
+
+// Works through queued jobs with up to `concurrency` documents in flight; jobs enqueued
+// while it runs are picked up too. Resolves when the queue is empty or stopped.
+export async function startBatch(options: BatchOptions): Promise<void> {
+    if (state !== 'idle') return;
+    state = 'running';
+    controller = new AbortController();
+    const signal = controller.signal;
+    notify();
+
+    const nextJob = () => jobs.find(job => job.status === 'queued');
+    const worker = async () => {
+        while (!signal.aborted) {
+            if (state === 'paused') {
+                await new Promise<void>(resolve => resumeWaiters.push(resolve));
+                continue;
+            }
+            const job = nextJob();
+            if (!job) return;
+            // Claim the job before awaiting so another worker does not pick it up.
+            updateJob(job.id, { status: 'parsing' });
+            await processJob(job, options, signal);
+        }
+    };
+
+    try {
+        await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+    } finally {
+        state = 'idle';
+        controller = null;
+        notify();
+    }
+}
+
+const archiveName = (index: number, fileName: string) =>
+    `${String(index + 1).padStart(3, '0')}-${fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}`;
+
+// One folder of Markdown/JSON/CSV reports per document plus a summary sheet of the whole batch.
+export function exportBatchArchive(batchJobs: BatchJob[]): Blob {
+    const entries: ZipEntry[] = [];
+    const summaryRows = [['file_name', 'status', 'steps', 'completed', 'error', 'skipped', 'prompt_tokens', 'completion_tokens', 'cost', 'run_id', 'error_message'].join(',')];
+
+    batchJobs.forEach((job, index) => {
+        const summary = summarizeResults(job.results);
+        const ocrCost = job.ocr_jobs.reduce((sum, ocr) => sum + (ocr.cost || 0), 0);
+        summaryRows.push([
+            job.file_name, job.status, summary.steps, summary.completed, summary.error, summary.skipped,
+            summary.prompt_tokens, summary.completion_tokens, summary.cost + ocrCost, job.run_id, job.error,
+        ].map(toCsvCell).join(','));
+        if (job.results.length === 0) return;
+
+        const folder = archiveName(index, job.file_name);
+        entries.push(
+            { name: `${folder}/report.md`, content: generateMarkdownReport(job.results, job.ocr_jobs, `AI Agent Pipeline Report: ${job.file_name}`) },
+            { name: `${folder}/report.json`, content: generateJsonReport(job.results, job.ocr_jobs) },
+            { name: `${folder}/report.csv`, content: generateCsvReport(job.results, job.ocr_jobs) },
+        );
+    });
+
+    return createZip([{ name: 'batch_summary.csv', content: summaryRows.join('\n') }, ...entries]);
+}
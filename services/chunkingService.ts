@@ -0,0 +1,92 @@
+import type { Agent } from '../types';
+import { DEFAULT_CONTEXT_WINDOW, DEFAULT_CONTEXT_WINDOWS, FILE_SEPARATOR, PAGE_SEPARATOR } from '../constants';
+import { estimateTokens } from './costService';
+
+// Token estimates are rough, so chunks are sized to leave headroom below the real limit.
+const CONTEXT_SAFETY_MARGIN = 0.8;
+const MIN_CHUNK_TOKENS = 1000;
+
+interface Segment {
+    text: string;
+    // The separator that preceded this segment in the original text.
+    separator: string;
+}
+
+export function getContextWindow(model: string): number {
+    if (DEFAULT_CONTEXT_WINDOWS[model]) return DEFAULT_CONTEXT_WINDOWS[model];
+    const prefix = Object.keys(DEFAULT_CONTEXT_WINDOWS)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? DEFAULT_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+// Sized for the smallest context window among the models that may receive the chunks, so a fallback can take them too.
+export function getChunkBudget(agent: Agent, models: string[] = [agent.model.name]): number {
+    if (agent.chunking?.max_chunk_tokens) return agent.chunking.max_chunk_tokens;
+    const contextWindow = Math.min(...models.map(getContextWindow));
+    const available = contextWindow - agent.model.max_tokens - estimateTokens(agent.prompt);
+    return Math.max(MIN_CHUNK_TOKENS, Math.floor(available * CONTEXT_SAFETY_MARGIN));
+}
+
+// Splits on the page and file separators emitted by parsingService and UploadTab.
+function splitSegments(text: string): Segment[] {
+    const parts = text.split(new RegExp(`(${escapeRegExp(FILE_SEPARATOR)}|${escapeRegExp(PAGE_SEPARATOR)})`));
+    const segments: Segment[] = [{ text: parts[0], separator: '' }];
+    for (let i = 1; i < parts.length; i += 2) {
+        segments.push({ text: parts[i + 1], separator: parts[i] });
+    }
+    return segments;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A single page larger than the budget is cut on line breaks, or hard-cut when it has none.
+function splitOversized(segment: Segment, maxTokens: number): Segment[] {
+    const pieces = Math.ceil(estimateTokens(segment.text) / maxTokens);
+    if (pieces <= 1) return [segment];
+    const targetLength = Math.ceil(segment.text.length / pieces);
+    const result: Segment[] = [];
+    let rest = segment.text;
+    while (rest.length > targetLength) {
+        const newline = rest.lastIndexOf('\n', targetLength);
+        const cut = newline > targetLength / 2 ? newline + 1 : targetLength;
+        result.push({ text: rest.slice(0, cut), separator: result.length === 0 ? segment.separator : '' });
+        rest = rest.slice(cut);
+    }
+    if (rest) result.push({ text: rest, separator: result.length === 0 ? segment.separator : '' });
+    return result;
+}
+
+const joinSegments = (segments: Segment[]) =>
+    segments.map((segment, index) => (index === 0 ? '' : segment.separator) + segment.text).join('');
+
+export function chunkText(text: string, maxTokens: number, overlapPages = 1): string[] {
+    if (estimateTokens(text) <= maxTokens) return [text];
+
+    const segments = splitSegments(text).flatMap(segment => splitOversized(segment, maxTokens));
+    const chunks: string[] = [];
+    let current: Segment[] = [];
+    let currentTokens = 0;
+    let fresh = 0; // segments in `current` not carried over from the previous chunk
+
+    segments.forEach(segment => {
+        const tokens = estimateTokens(segment.text);
+        if (fresh > 0 && currentTokens + tokens > maxTokens) {
+            chunks.push(joinSegments(current));
+            current = overlapPages > 0 ? current.slice(-overlapPages) : [];
+            currentTokens = current.reduce((sum, s) => sum + estimateTokens(s.text), 0);
+            // Drop overlap that would leave no room for new content.
+            while (current.length > 0 && currentTokens + tokens > maxTokens) {
+                currentTokens -= estimateTokens(current.shift()!.text);
+            }
+            fresh = 0;
+        }
+        current.push(segment);
+        currentTokens += tokens;
+        fresh++;
+    });
+    if (fresh > 0) chunks.push(joinSegments(current));
+    return chunks;
+}
@@ -0,0 +1,302 @@
+import type {
+    Agent, AgentsConfig, ApiKeys, ComparisonResult, ComparisonRow, ComparisonSlot, ComparisonSlotRole, ComparisonSlotStatus,
+    JsonSchema, OcrSettings, PipelineResult,
+} from '../types';
+import { DEFAULT_COMPARISON_CATEGORIES, FILE_SEPARATOR } from '../constants';
+import { parseFile } from './parsingService';
+import { isAbortError, runAgent } from './llmService';
+import { calculateCost } from './costService';
+import { createPendingResults, runPipeline } from './pipelineService';
+import { buildDependencyMap, validateDependencies } from './dagService';
+
+export const ASSESSMENTS = ['same', 'similar', 'different', 'not_provided'] as const;
+
+export interface ComparisonOptions {
+    config: AgentsConfig;
+    agentIds: string[];
+    apiKeys: ApiKeys;
+    variables: Record<string, string>;
+    // False re-runs only the comparator on the slots' existing results.
+    runAgents: boolean;
+}
+
+// Like the batch queue, the comparison lives outside React so it keeps running across tab switches.
+let slots: ComparisonSlot[] = [createSlot('subject'), createSlot('predicate')];
+let comparison: ComparisonResult | null = null;
+let controller: AbortController | null = null;
+const listeners = new Set<() => void>();
+
+function createSlot(role: ComparisonSlotRole): ComparisonSlot {
+    return {
+        id: `slot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        role,
+        label: '',
+        file_names: [],
+        document: '',
+        results: [],
+        ocr_jobs: [],
+        status: 'empty',
+    };
+}
+
+function notify() {
+    listeners.forEach(listener => listener());
+}
+
+export function onComparisonChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getComparisonSlots(): ComparisonSlot[] {
+    return slots;
+}
+
+export function getComparison(): ComparisonResult | null {
+    return comparison;
+}
+
+export function isComparisonRunning(): boolean {
+    return controller !== null;
+}
+
+// Subject first, then predicates in the order they were added; empty labels get a placeholder.
+export function getSlotLabel(slot: ComparisonSlot): string {
+    if (slot.label.trim()) return slot.label.trim();
+    if (slot.role === 'subject') return 'Subject device';
+    return `Predicate ${slots.filter(s => s.role === 'predicate').indexOf(slot) + 1}`;
+}
+
+function updateSlot(id: string, patch: Partial<ComparisonSlot>) {
+    slots = slots.map(slot => slot.id === id ? { ...slot, ...patch } : slot);
+    notify();
+}
+
+export function addPredicateSlot() {
+    if (controller) return;
+    slots = [...slots, createSlot('predicate')];
+    notify();
+}
+
+// The subject slot and the last predicate are always kept.
+export function removeSlot(id: string) {
+    if (controller || slots.find(slot => slot.id === id)?.role !== 'predicate' || slots.length <= 2) return;
+    slots = slots.filter(slot => slot.id !== id);
+    notify();
+}
+
+export function setSlotLabel(id: string, label: string) {
+    updateSlot(id, { label });
+}
+
+// Replaces the slot's document with the files, joined as the Upload tab joins them.
+export async function loadSlotFiles(id: string, files: File[], ocr: OcrSettings, apiKeys: ApiKeys, config: AgentsConfig) {
+    updateSlot(id, { status: 'parsing', error: undefined, progress_text: undefined });
+    try {
+        const texts: string[] = [];
+        const ocrJobs = [];
+        for (const file of files) {
+            const { text, ocrJob } = await parseFile(file, ocr, apiKeys, config.pricing, (_, progressText) => {
+                if (progressText) updateSlot(id, { progress_text: progressText });
+            });
+            texts.push(text);
+            if (ocrJob) ocrJobs.push(ocrJob);
+        }
+        updateSlot(id, {
+            status: 'ready',
+            progress_text: undefined,
+            file_names: files.map(file => file.name),
+            document: texts.join(FILE_SEPARATOR),
+            results: [],
+            ocr_jobs: ocrJobs,
+        });
+    } catch (e) {
+        updateSlot(id, { status: 'error', progress_text: undefined, error: `Failed to process files: ${e instanceof Error ? e.message : String(e)}` });
+    }
+}
+
+export function getComparisonCategories(config: AgentsConfig): string[] {
+    return config.comparator?.categories?.length ? config.comparator.categories : DEFAULT_COMPARISON_CATEGORIES;
+}
+
+// Problems that stop the comparison from starting; an empty list means it can run.
+export function getComparisonProblems(config: AgentsConfig, agentIds: string[], runAgents: boolean): string[] {
+    if (!config.comparator) return ['agents.yaml has no comparator section.'];
+    const problems = slots.filter(slot => !slot.document).map(slot => `${getSlotLabel(slot)}: upload a document first.`);
+    if (runAgents) {
+        problems.push(...validateDependencies(buildDependencyMap(config.agents, agentIds)));
+    } else if (slots.some(slot => slot.results.length === 0) && agentIds.length > 0) {
+        problems.push('Run the extraction agents on every slot first.');
+    }
+    return problems;
+}
+
+export function validateComparator(config: AgentsConfig): string[] {
+    const comparator = config.comparator;
+    if (!comparator) return [];
+    const problems = (comparator.agents || [])
+        .filter(id => !config.agents.some(agent => agent.id === id))
+        .map(id => `comparator: unknown agent "${id}"`);
+    if (!comparator.model || !comparator.prompt) problems.push('comparator: model and prompt are required');
+    if (comparator.slot_variable && !(config.variables || []).some(v => v.name === comparator.slot_variable)) {
+        problems.push(`comparator: slot_variable "${comparator.slot_variable}" is not a declared run variable`);
+    }
+    return problems;
+}
+
+export function getComparisonSchema(categories: string[], predicateCount: number): JsonSchema {
+    return {
+        type: 'object',
+        required: ['rows', 'conclusion'],
+        properties: {
+            rows: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['category', 'subject', 'predicates', 'assessment'],
+                    properties: {
+                        category: { type: 'string', enum: categories },
+                        subject: { type: 'string' },
+                        predicates: { type: 'array', items: { type: 'string' }, minItems: predicateCount, maxItems: predicateCount },
+                        assessment: { type: 'string', enum: [...ASSESSMENTS] },
+                        notes: { type: 'string' },
+                    },
+                },
+            },
+            conclusion: { type: 'string' },
+        },
+    };
+}
+
+// Each slot's step outputs under its label; a slot whose agents produced nothing contributes its document.
+export function buildComparisonInput(comparisonSlots: ComparisonSlot[]): string {
+    return comparisonSlots.map(slot => {
+        const heading = `# ${slot.role === 'subject' ? 'Subject device' : 'Predicate device'}: ${getSlotLabel(slot)}`;
+        const outputs = slot.results.filter(r => r.status === 'completed' || (r.status === 'error' && r.on_error_applied));
+        const body = outputs.length > 0
+            ? outputs.map(r => `## ${r.agent_name}\n\n${r.output}`).join('\n\n')
+            : slot.document;
+        return `${heading}\n\n${body}`;
+    }).join('\n\n---\n\n');
+}
+
+function buildComparatorAgent(config: AgentsConfig, columns: string[]): Agent {
+    const comparator = config.comparator!;
+    const categories = getComparisonCategories(config);
+    const instructions = [
+        `Compare the subject device "${columns[0]}" with ${columns.length - 1 === 1 ? 'the predicate' : 'each predicate'}: ${columns.slice(1).map(c => `"${c}"`).join(', ')}.`,
+        `Return one row per category, in this order: ${categories.join('; ')}.`,
+        `In each row, "predicates" has one entry per predicate in the order listed above.`,
+        `"assessment" is ${ASSESSMENTS.join(', ')}; use not_provided when the documents do not say.`,
+    ].join('\n');
+    return {
+        id: 'comparator',
+        name: comparator.name || 'Comparator',
+        description: '',
+        enabled: true,
+        model: comparator.model,
+        fallbacks: comparator.fallbacks,
+        retry: comparator.retry,
+        prompt: `${comparator.prompt}\n\n${instructions}`,
+        output_schema: getComparisonSchema(categories, columns.length - 1),
+    };
+}
+
+function getSlotStatus(results: PipelineResult[], signal: AbortSignal): ComparisonSlotStatus {
+    if (signal.aborted || results.some(r => r.status === 'cancelled')) return 'cancelled';
+    if (results.some(r => r.awaiting_approval || (r.status === 'error' && !r.on_error_applied) || r.status === 'pending')) return 'error';
+    return 'completed';
+}
+
+async function runSlot(slot: ComparisonSlot, options: ComparisonOptions, signal: AbortSignal): Promise<ComparisonSlotStatus> {
+    let results = createPendingResults(options.config.agents, options.agentIds);
+    updateSlot(slot.id, { status: 'running', error: undefined, results });
+    const slotVariable = options.config.comparator?.slot_variable;
+    try {
+        await runPipeline({
+            config: options.config,
+            selectedAgentIds: options.agentIds,
+            document: slot.document,
+            apiKeys: options.apiKeys,
+            variables: slotVariable ? { ...options.variables, [slotVariable]: getSlotLabel(slot) } : options.variables,
+            getResults: () => results,
+            publish: result => {
+                results = results.map(r => r.agent_id === result.agent_id ? result : r);
+                updateSlot(slot.id, { results });
+            },
+        }, { signal });
+        const status = getSlotStatus(results, signal);
+        // Approval happens on the Pipeline tab; here a gated step just stops the slot.
+        const gated = results.filter(r => r.awaiting_approval).map(r => r.agent_name);
+        updateSlot(slot.id, { status, error: gated.length > 0 ? `Awaiting approval, which comparator mode does not support: ${gated.join(', ')}` : undefined });
+        return status;
+    } catch (e) {
+        updateSlot(slot.id, { status: isAbortError(e) ? 'cancelled' : 'error', error: isAbortError(e) ? undefined : (e instanceof Error ? e.message : String(e)) });
+        return 'error';
+    }
+}
+
+// Runs the extraction agents on every slot in parallel, then the comparator on their outputs.
+export async function startComparison(options: ComparisonOptions): Promise<void> {
+    if (controller) return;
+    controller = new AbortController();
+    const signal = controller.signal;
+    const columns = slots.map(getSlotLabel);
+    const timestamp = Date.now();
+    comparison = { status: 'running', columns, rows: [], output: '', timestamp };
+    notify();
+
+    try {
+        if (options.runAgents && options.agentIds.length > 0) {
+            const statuses = await Promise.all(slots.map(slot => runSlot(slot, options, signal)));
+            const failed = slots.filter((_, i) => statuses[i] !== 'completed');
+            if (failed.length > 0) {
+                comparison = {
+                    ...comparison,
+                    status: signal.aborted ? 'cancelled' : 'error',
+                    error: signal.aborted ? undefined : `Extraction did not complete for ${failed.map(getSlotLabel).join(', ')}; the comparator was not run.`,
+                };
+                return;
+            }
+        }
+
+        const agent = buildComparatorAgent(options.config, columns);
+        const result = await runAgent(agent, buildComparisonInput(slots), options.apiKeys, {
+            signal,
+            onToken: output => {
+                comparison = { ...comparison!, output };
+                notify();
+            },
+        });
+        const table = result.structuredOutput as { rows?: ComparisonRow[]; conclusion?: string } | undefined;
+        comparison = {
+            status: 'completed',
+            columns,
+            rows: table?.rows || [],
+            conclusion: table?.conclusion,
+            output: result.output,
+            provider: result.provider,
+            model: result.model,
+            usage: result.usage,
+            cost: calculateCost(result.usage, result.model, options.config.pricing),
+            latency: result.latency,
+            validation_errors: result.validationErrors,
+            timestamp,
+        };
+    } catch (e) {
+        comparison = {
+            ...comparison!,
+            status: isAbortError(e) ? 'cancelled' : 'error',
+            error: isAbortError(e) ? undefined : (e instanceof Error ? e.message : String(e)),
+        };
+    } finally {
+        controller = null;
+        notify();
+    }
+}
+
+export function stopComparison() {
+    controller?.abort();
+}
@@ -0,0 +1,221 @@
+import type { AgentsConfig } from '../types';
+import { checkVariablePath, resolveValue, TemplateContext } from './templateService';
+
+// Grammar for an agent's `when:` expression (no eval):
+//   expr       := term ('or' term)*
+//   term       := unary ('and' unary)*
+//   unary      := 'not' unary | '(' expr ')' | comparison
+//   comparison := operand [(== | != | > | < | >= | <= | contains | matches) operand | is [not] empty]
+//   operand    := path (as in prompt templates) | "string" | 'string' | number | true | false
+// A bare operand is true when it is not empty. `contains` and `matches` ignore case.
+
+type Token = { type: 'string' | 'number' | 'word' | 'op' | 'paren'; value: string };
+
+type Node =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; name: string }
+    | { kind: 'not'; operand: Node }
+    | { kind: 'logical'; op: 'and' | 'or'; left: Node; right: Node }
+    | { kind: 'compare'; op: string; left: Node; right: Node }
+    | { kind: 'empty'; negated: boolean; operand: Node };
+
+const COMPARISON_WORDS = ['contains', 'matches'];
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < expression.length) {
+        const ch = expression[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '"' || ch === "'") {
+            let value = '';
+            i++;
+            while (i < expression.length && expression[i] !== ch) {
+                if (expression[i] === '\\' && i + 1 < expression.length) {
+                    // Keep backslashes other than an escaped quote, so regex escapes survive.
+                    value += expression[i + 1] === ch ? ch : expression[i] + expression[i + 1];
+                    i += 2;
+                } else {
+                    value += expression[i++];
+                }
+            }
+            if (i >= expression.length) throw new Error('Unterminated string literal');
+            i++;
+            tokens.push({ type: 'string', value });
+        } else if (ch === '(' || ch === ')') {
+            tokens.push({ type: 'paren', value: ch });
+            i++;
+        } else if (/[=!<>]/.test(ch)) {
+            const op = /^(==|!=|>=|<=|>|<)/.exec(expression.slice(i))?.[0];
+            if (!op) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+            tokens.push({ type: 'op', value: op });
+            i += op.length;
+        } else {
+            const word = /^[\w.-]+/.exec(expression.slice(i))?.[0];
+            if (!word) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+            tokens.push({ type: /^-?\d+(\.\d+)?$/.test(word) ? 'number' : 'word', value: word });
+            i += word.length;
+        }
+    }
+    return tokens;
+}
+
+export function parseCondition(expression: string): Node {
+    const tokens = tokenize(expression);
+    let position = 0;
+    const peek = () => tokens[position];
+    const isWord = (value: string) => peek()?.type === 'word' && peek().value === value;
+    const expect = (type: Token['type'], value?: string) => {
+        const token = tokens[position++];
+        if (!token || token.type !== type || (value !== undefined && token.value !== value)) {
+            throw new Error(`Expected ${value ?? type}${token ? ` but found "${token.value}"` : ' at end of expression'}`);
+        }
+        return token;
+    };
+
+    const operand = (): Node => {
+        const token = tokens[position++];
+        if (!token) throw new Error('Expected a value at end of expression');
+        if (token.type === 'string') return { kind: 'literal', value: token.value };
+        if (token.type === 'number') return { kind: 'literal', value: Number(token.value) };
+        if (token.type === 'word' && (token.value === 'true' || token.value === 'false')) return { kind: 'literal', value: token.value === 'true' };
+        if (token.type === 'word') return { kind: 'path', name: token.value };
+        throw new Error(`Unexpected "${token.value}"`);
+    };
+
+    const comparison = (): Node => {
+        const left = operand();
+        if (isWord('is')) {
+            position++;
+            const negated = isWord('not');
+            if (negated) position++;
+            expect('word', 'empty');
+            return { kind: 'empty', negated, operand: left };
+        }
+        const token = peek();
+        if (token && (token.type === 'op' || (token.type === 'word' && COMPARISON_WORDS.includes(token.value)))) {
+            position++;
+            return { kind: 'compare', op: token.value, left, right: operand() };
+        }
+        return left;
+    };
+
+    const unary = (): Node => {
+        if (isWord('not')) {
+            position++;
+            return { kind: 'not', operand: unary() };
+        }
+        if (peek()?.type === 'paren' && peek().value === '(') {
+            position++;
+            const inner = or();
+            expect('paren', ')');
+            return inner;
+        }
+        return comparison();
+    };
+
+    const and = (): Node => {
+        let left = unary();
+        while (isWord('and')) {
+            position++;
+            left = { kind: 'logical', op: 'and', left, right: unary() };
+        }
+        return left;
+    };
+
+    const or = (): Node => {
+        let left = and();
+        while (isWord('or')) {
+            position++;
+            left = { kind: 'logical', op: 'or', left, right: and() };
+        }
+        return left;
+    };
+
+    const tree = or();
+    if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+    return tree;
+}
+
+function collectPaths(node: Node): string[] {
+    switch (node.kind) {
+        case 'path': return [node.name];
+        case 'not': case 'empty': return collectPaths(node.operand);
+        case 'logical': case 'compare': return [...collectPaths(node.left), ...collectPaths(node.right)];
+        default: return [];
+    }
+}
+
+// Agent ids the condition reads; the step waits for them like it waits for its inputs.
+export function getConditionSteps(expression: string | undefined): string[] {
+    if (!expression) return [];
+    try {
+        return Array.from(new Set(collectPaths(parseCondition(expression))
+            .filter(name => name.startsWith('steps.'))
+            .map(name => name.split('.')[1])));
+    } catch (e) {
+        return [];
+    }
+}
+
+export function validateConditions(config: AgentsConfig): string[] {
+    return config.agents.filter(agent => agent.when).flatMap(agent => {
+        try {
+            return collectPaths(parseCondition(agent.when!))
+                .map(name => ({ name, problem: checkVariablePath(name, config) }))
+                .filter(({ problem }) => problem)
+                .map(({ name, problem }) => `${agent.id}: when: ${name}: ${problem}`);
+        } catch (e) {
+            return [`${agent.id}: when: ${e instanceof Error ? e.message : String(e)}`];
+        }
+    });
+}
+
+const isEmpty = (value: unknown) =>
+    value === undefined || value === null || value === false ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+const asText = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+function compare(op: string, left: unknown, right: unknown): boolean {
+    if (op === 'contains') {
+        if (Array.isArray(left)) return left.some(item => asText(item).toLowerCase() === asText(right).toLowerCase());
+        return asText(left).toLowerCase().includes(asText(right).toLowerCase());
+    }
+    if (op === 'matches') return new RegExp(asText(right), 'i').test(asText(left));
+
+    const leftNumber = Array.isArray(left) ? left.length : Number(left);
+    const rightNumber = Number(right);
+    const numeric = left !== '' && right !== '' && !isNaN(leftNumber) && !isNaN(rightNumber);
+    switch (op) {
+        case '==': return numeric ? leftNumber === rightNumber : asText(left) === asText(right);
+        case '!=': return numeric ? leftNumber !== rightNumber : asText(left) !== asText(right);
+        case '>': return numeric && leftNumber > rightNumber;
+        case '<': return numeric && leftNumber < rightNumber;
+        case '>=': return numeric && leftNumber >= rightNumber;
+        case '<=': return numeric && leftNumber <= rightNumber;
+        default: throw new Error(`Unknown operator "${op}"`);
+    }
+}
+
+function evaluate(node: Node, context: TemplateContext): unknown {
+    switch (node.kind) {
+        case 'literal': return node.value;
+        case 'path': return resolveValue(node.name, context);
+        case 'not': return !truthy(evaluate(node.operand, context));
+        case 'empty': return isEmpty(evaluate(node.operand, context)) !== node.negated;
+        case 'logical': return node.op === 'and'
+            ? truthy(evaluate(node.left, context)) && truthy(evaluate(node.right, context))
+            : truthy(evaluate(node.left, context)) || truthy(evaluate(node.right, context));
+        case 'compare': return compare(node.op, evaluate(node.left, context), evaluate(node.right, context));
+    }
+}
+
+const truthy = (value: unknown) => !isEmpty(value);
+
+export function evaluateCondition(expression: string, context: TemplateContext): boolean {
+    return truthy(evaluate(parseCondition(expression), context));
+}
@@ -0,0 +1,48 @@
+import type { ModelPrice, TokenUsage } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+
+// Fallback for when a provider reports no usage. CJK text runs close to one token
+// per character, so it is counted separately from the ~4 characters/token of Latin text.
+export function estimateTokens(text: string): number {
+    const value = text || '';
+    const cjkCount = (value.match(CJK_PATTERN) || []).length;
+    return Math.max(1, Math.round(cjkCount + (value.length - cjkCount) / 4));
+}
+
+export function getModelPrice(model: string, pricing?: Record<string, ModelPrice>): ModelPrice | undefined {
+    const table = { ...DEFAULT_MODEL_PRICES, ...pricing };
+    if (table[model]) return table[model];
+    const prefix = Object.keys(table)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? table[prefix] : undefined;
+}
+
+export function calculateCost(usage: TokenUsage | undefined, model: string, pricing?: Record<string, ModelPrice>): number | undefined {
+    const price = getModelPrice(model, pricing);
+    if (!usage || !price) return undefined;
+    const cached = usage.cached_tokens || 0;
+    const uncached = usage.prompt_tokens - cached;
+    return (
+        uncached * price.input +
+        cached * (price.cached_input ?? price.input) +
+        usage.completion_tokens * price.output
+    ) / 1_000_000;
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return {
+        prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+        completion_tokens: a.completion_tokens + b.completion_tokens,
+        cached_tokens: (a.cached_tokens || b.cached_tokens) ? (a.cached_tokens || 0) + (b.cached_tokens || 0) : undefined,
+    };
+}
+
+export function formatCost(cost: number | undefined): string {
+    if (cost === undefined) return 'n/a';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,109 @@
+import type { Agent, InputTransform, PipelineResult } from '../types';
+import { getReferencedSteps } from './templateService';
+import { getConditionSteps } from './conditionService';
+import { transformInput } from './transformService';
+
+// The pseudo-source every pipeline starts from: the parsed/pasted document text.
+export const DOCUMENT_INPUT = 'document';
+
+// Without `inputs`, an agent consumes the previous selected agent's output (or the document when first).
+export function getAgentInputs(agent: Agent, selectedAgentIds: string[]): string[] {
+    if (agent.inputs && agent.inputs.length > 0) return agent.inputs;
+    const index = selectedAgentIds.indexOf(agent.id);
+    return index > 0 ? [selectedAgentIds[index - 1]] : [DOCUMENT_INPUT];
+}
+
+// Inputs plus the steps the prompt template and `when` condition read, which must also finish first.
+export function getAgentDependencies(agent: Agent, selectedAgentIds: string[]): string[] {
+    const inputs = getAgentInputs(agent, selectedAgentIds);
+    const referenced = [...getReferencedSteps(agent.prompt || ''), ...getConditionSteps(agent.when)];
+    return Array.from(new Set([...inputs, ...referenced]));
+}
+
+export function buildDependencyMap(agents: Agent[], selectedAgentIds: string[]): Record<string, string[]> {
+    const map: Record<string, string[]> = {};
+    selectedAgentIds.forEach(id => {
+        const agent = agents.find(a => a.id === id);
+        map[id] = agent ? getAgentDependencies(agent, selectedAgentIds) : [DOCUMENT_INPUT];
+    });
+    return map;
+}
+
+// Returns human-readable problems: inputs that are not selected, and cycles.
+export function validateDependencies(dependencies: Record<string, string[]>): string[] {
+    const errors: string[] = [];
+    Object.entries(dependencies).forEach(([id, inputs]) => {
+        inputs
+            .filter(input => input !== DOCUMENT_INPUT && !(input in dependencies))
+            .forEach(input => errors.push(`"${id}" consumes "${input}", which is not in the pipeline.`));
+    });
+
+    const state: Record<string, 'visiting' | 'done'> = {};
+    const visit = (id: string, path: string[]) => {
+        if (state[id] === 'done' || !(id in dependencies)) return;
+        if (state[id] === 'visiting') {
+            errors.push(`Dependency cycle: ${[...path.slice(path.indexOf(id)), id].join(' → ')}`);
+            return;
+        }
+        state[id] = 'visiting';
+        dependencies[id].forEach(input => visit(input, [...path, id]));
+        state[id] = 'done';
+    };
+    Object.keys(dependencies).forEach(id => visit(id, []));
+    return errors;
+}
+
+// Depth of each agent in the graph: 1 for agents fed only by the document. Assumes no cycles.
+export function getDependencyLevels(dependencies: Record<string, string[]>): Record<string, number> {
+    const levels: Record<string, number> = {};
+    const levelOf = (id: string): number => {
+        if (id === DOCUMENT_INPUT || !(id in dependencies)) return 0;
+        if (levels[id] === undefined) {
+            levels[id] = 1 + Math.max(0, ...dependencies[id].map(levelOf));
+        }
+        return levels[id];
+    };
+    Object.keys(dependencies).forEach(levelOf);
+    return levels;
+}
+
+// The agent and every agent that depends on it, directly or transitively.
+export function getDownstream(dependencies: Record<string, string[]>, agentId: string): Set<string> {
+    const downstream = new Set<string>([agentId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        Object.entries(dependencies).forEach(([id, inputs]) => {
+            if (!downstream.has(id) && inputs.some(input => downstream.has(input))) {
+                downstream.add(id);
+                grew = true;
+            }
+        });
+    }
+    return downstream;
+}
+
+// A single source is passed through unchanged; several are combined under headings.
+// `transforms` (an agent's input_transforms) can narrow each source or the combined text first.
+export function composeInput(
+    inputs: string[],
+    document: string,
+    results: PipelineResult[],
+    transforms: InputTransform[] = []
+): { input: string; missing: string[]; errors: string[] } {
+    const missing: string[] = [];
+    const sections = inputs.map(source => {
+        if (source === DOCUMENT_INPUT) {
+            if (!document) missing.push(DOCUMENT_INPUT);
+            return { source, title: 'Source Document', text: document };
+        }
+        const result = results.find(r => r.agent_id === source);
+        // A failed step whose on_error policy is continue/fallback still provides (empty or fallback) output.
+        if (!result || (result.status !== 'completed' && !result.on_error_applied)) missing.push(source);
+        return { source, title: `Output of ${result?.agent_name || source}`, text: result?.output || '' };
+    });
+
+    // Transforms would only report errors for inputs that are not there yet.
+    if (missing.length > 0) return { ...transformInput(sections), missing, errors: [] };
+    return { ...transformInput(sections, transforms), missing };
+}
@@ -0,0 +1,225 @@
+import type { Agent, AgentsConfig, ApiKeys, EnsembleMemberResult, EnsembleResult, EnsembleVote, ModelPrice, TokenUsage } from '../types';
+import { AgentExecutionResult, AgentRunError, describeError, RunAgentOptions, runAgent } from './llmService';
+import { addUsage, calculateCost } from './costService';
+
+const MARKER = /\[(YES|NO)\]/i;
+
+const DEFAULT_JUDGE_PROMPT = 'Several models answered the same task independently. Reconcile their answers into one final answer in the format the task asks for. Where they disagree, decide from the input which answer is best supported.';
+
+const DISAGREEMENTS_PROMPT = 'After the answer, add a "Disagreements" section listing each point the models disagreed on, what each said and how you resolved it; write "None" if they agreed.';
+
+interface EnsembleOptions extends RunAgentOptions {
+    pricing?: Record<string, ModelPrice>;
+    // Receives the members' progress as each one starts and finishes.
+    onProgress?: (ensemble: EnsembleResult) => void;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The [YES]/[NO] marker on the first line naming the category.
+export function findCategoryMarker(output: string, category: string): 'YES' | 'NO' | undefined {
+    const pattern = new RegExp(escapeRegex(category), 'i');
+    const line = output.split('\n').find(l => pattern.test(l) && MARKER.test(l));
+    return line?.match(MARKER)?.[1].toUpperCase() as 'YES' | 'NO' | undefined;
+}
+
+// Category names from lines such as "- Category: Labeling [YES]", in the order they appear.
+export function listMarkedCategories(output: string): string[] {
+    return output.split('\n')
+        .filter(line => MARKER.test(line))
+        .map(line => line.slice(0, line.search(MARKER))
+            .replace(/\*\*|__|`/g, '')
+            .replace(/^[\s>*#-]*(\d+[.)]\s*)?/, '')
+            .replace(/^category\s*:\s*/i, '')
+            .replace(/[\s:\-–—]+$/, ''))
+        .filter(Boolean);
+}
+
+// Unpriced members and judges count as zero; undefined only when nothing was priced.
+export function getEnsembleCost(ensemble: EnsembleResult): number | undefined {
+    const costs = [...ensemble.members.map(m => m.cost), ensemble.judge?.cost].filter((cost): cost is number => cost !== undefined);
+    return costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : undefined;
+}
+
+export function getMemberLabel(member: Pick<EnsembleMemberResult, 'provider' | 'model'>): string {
+    return `${member.provider}/${member.model}`;
+}
+
+// The member's letter and model, as attempts and tool calls are tagged with it.
+export function getMemberTag(index: number, member: Pick<EnsembleMemberResult, 'provider' | 'model'>): string {
+    return `${String.fromCharCode(65 + index)} · ${getMemberLabel(member)}`;
+}
+
+// One vote per category; a tie goes to the tie breaker, NO unless configured otherwise.
+export function tallyVotes(members: EnsembleMemberResult[], categories: string[], tieBreaker: 'YES' | 'NO' = 'NO'): EnsembleVote[] {
+    return categories.map(category => {
+        const votes = members.map(m => m.status === 'completed' ? findCategoryMarker(m.output, category) : undefined);
+        const yes = votes.filter(v => v === 'YES').length;
+        const no = votes.filter(v => v === 'NO').length;
+        const answered = members.filter(m => m.status === 'completed').length;
+        return {
+            category,
+            votes,
+            verdict: yes > no ? 'YES' : no > yes ? 'NO' : tieBreaker,
+            unanimous: (yes === 0 || no === 0) && yes + no === answered,
+            tied: (yes > 0 && yes === no) || undefined,
+        };
+    });
+}
+
+function getCategories(agent: Agent, members: EnsembleMemberResult[]): string[] {
+    if (agent.ensemble?.categories?.length) return agent.ensemble.categories;
+    const seen = new Map<string, string>();
+    members.filter(m => m.status === 'completed').forEach(m => listMarkedCategories(m.output).forEach(category => {
+        if (!seen.has(category.toLowerCase())) seen.set(category.toLowerCase(), category);
+    }));
+    return Array.from(seen.values());
+}
+
+// The verdict table, then the rationale of the member that agreed with it most.
+function buildMajorityOutput(members: EnsembleMemberResult[], votes: EnsembleVote[]): string {
+    const answered = members.filter(m => m.status === 'completed');
+    const agreement = (member: EnsembleMemberResult) => votes.filter(v => v.votes[members.indexOf(member)] === v.verdict).length;
+    const representative = answered.reduce((best, member) => agreement(member) > agreement(best) ? member : best);
+    const lines = votes.map(vote => {
+        const count = vote.votes.filter(v => v === vote.verdict).length;
+        const note = vote.votes.every(v => v === undefined) ? '; no model marked it'
+            : vote.tied ? '; tied, models disagreed'
+            : vote.unanimous ? '' : '; models disagreed';
+        return `- ${vote.category} [${vote.verdict}] (${count} of ${answered.length}${note})`;
+    });
+    const disputed = votes.filter(v => !v.unanimous).map(v => v.category);
+    return [
+        `Ensemble verdict: majority of ${answered.length} models (${answered.map(getMemberLabel).join(', ')})`,
+        lines.join('\n'),
+        disputed.length > 0 ? `Models disagreed on: ${disputed.join(', ')}.` : 'All models agreed.',
+        '---',
+        `Rationale from ${getMemberLabel(representative)}, which agreed with the verdict on ${agreement(representative)} of ${votes.length} categories:`,
+        representative.output,
+    ].join('\n\n');
+}
+
+function buildJudgeInput(agent: Agent, input: string, members: EnsembleMemberResult[]): string {
+    const answers = members
+        .filter(m => m.status === 'completed')
+        .map((m, i) => `## Answer ${i + 1} (${getMemberLabel(m)})\n\n${m.output}`);
+    return [`## Task given to the models\n\n${agent.prompt}`, `## Input\n\n${input}`, ...answers].join('\n\n');
+}
+
+// Runs the agent once per ensemble member in parallel, then merges the answers by majority vote
+// on [YES]/[NO] categories or with the judge. Members do not use the agent's fallbacks.
+export async function runEnsemble(agent: Agent, input: string, apiKeys: ApiKeys, options: EnsembleOptions = {}): Promise<AgentExecutionResult> {
+    const config = agent.ensemble!;
+    const startTime = Date.now();
+    const models = config.models.map(member => ({ ...agent.model, ...member }));
+    const members: EnsembleMemberResult[] = models.map(model => ({ provider: model.provider, model: model.name, temperature: model.temperature, status: 'running', output: '' }));
+    const progress = () => ({ merge: config.merge, members: [...members], votes: [] });
+    options.onProgress?.(progress());
+
+    await Promise.all(models.map(async (model, index) => {
+        try {
+            const tag = getMemberTag(index, members[index]);
+            const result = await runAgent({ ...agent, model, fallbacks: undefined, ensemble: undefined }, input, apiKeys, {
+                onAttempt: options.onAttempt && (attempt => options.onAttempt!({ ...attempt, ensemble_member: tag })),
+                onToolCall: options.onToolCall && (record => options.onToolCall!({ ...record, ensemble_member: tag })),
+                signal: options.signal,
+                document: options.document,
+            });
+            members[index] = {
+                ...members[index],
+                provider: result.provider,
+                status: 'completed',
+                output: result.output,
+                structured_output: result.structuredOutput,
+                validation_errors: result.validationErrors,
+                latency: result.latency,
+                usage: result.usage,
+                cost: calculateCost(result.usage, result.model, options.pricing),
+            };
+        } catch (e) {
+            if (options.signal?.aborted) throw e;
+            // AgentRunError details already start with provider/model.
+            members[index] = { ...members[index], status: 'error', error: e instanceof AgentRunError ? e.details.join('; ') : `${getMemberLabel(members[index])}: ${describeError(e)}` };
+        }
+        options.onProgress?.(progress());
+    }));
+
+    const answered = members.filter(m => m.status === 'completed');
+    const required = Math.max(1, config.min_successful ?? Math.floor(members.length / 2) + 1);
+    if (answered.length < required) {
+        throw new AgentRunError(
+            `Only ${answered.length} of ${members.length} ensemble models answered; ${required} are needed.`,
+            members.filter(m => m.status === 'error').map(m => m.error!)
+        );
+    }
+
+    const votes = tallyVotes(members, getCategories(agent, members), config.tie_breaker);
+    const usage = members.reduce<TokenUsage | undefined>((total, m) => addUsage(total, m.usage), undefined);
+
+    if (config.merge === 'majority') {
+        if (votes.length === 0) throw new Error('No [YES]/[NO] categories in the ensemble answers to vote on; use merge: judge for free-form output.');
+        const output = buildMajorityOutput(members, votes);
+        options.onToken?.(output);
+        return {
+            output,
+            latency: (Date.now() - startTime) / 1000,
+            provider: 'ensemble',
+            model: `majority of ${answered.length}`,
+            usage,
+            ensemble: { merge: 'majority', members, votes },
+        };
+    }
+
+    const judgeStart = Date.now();
+    const judgeAgent: Agent = {
+        id: `${agent.id}_judge`,
+        name: `${agent.name} (judge)`,
+        description: '',
+        enabled: true,
+        model: config.judge!.model,
+        retry: agent.retry,
+        prompt: agent.output_schema ? config.judge?.prompt || DEFAULT_JUDGE_PROMPT : `${config.judge?.prompt || DEFAULT_JUDGE_PROMPT}\n\n${DISAGREEMENTS_PROMPT}`,
+        output_schema: agent.output_schema,
+        output_repair_attempts: agent.output_repair_attempts,
+    };
+    const judged = await runAgent(judgeAgent, buildJudgeInput(agent, input, members), apiKeys, {
+        onToken: options.onToken,
+        onAttempt: options.onAttempt && (attempt => options.onAttempt!({ ...attempt, ensemble_member: 'judge' })),
+        signal: options.signal,
+    });
+    return {
+        ...judged,
+        latency: (Date.now() - startTime) / 1000,
+        usage: addUsage(usage, judged.usage),
+        ensemble: {
+            merge: 'judge',
+            members,
+            votes,
+            judge: {
+                provider: judged.provider,
+                model: judged.model,
+                latency: (Date.now() - judgeStart) / 1000,
+                usage: judged.usage,
+                cost: calculateCost(judged.usage, judged.model, options.pricing),
+            },
+        },
+    };
+}
+
+export function validateEnsembles(config: AgentsConfig): string[] {
+    return config.agents.flatMap(agent => {
+        const ensemble = agent.ensemble;
+        if (!ensemble) return [];
+        const problems: string[] = [];
+        if (!Array.isArray(ensemble.models) || ensemble.models.length < 2) problems.push(`${agent.id}: ensemble needs at least two models`);
+        else if (ensemble.models.some(m => !m.provider || !m.name)) problems.push(`${agent.id}: every ensemble model needs a provider and name`);
+        if (ensemble.merge !== 'majority' && ensemble.merge !== 'judge') problems.push(`${agent.id}: ensemble merge must be majority or judge`);
+        if (ensemble.merge === 'judge' && !ensemble.judge?.model) problems.push(`${agent.id}: ensemble merge "judge" needs judge.model`);
+        if (ensemble.merge === 'majority' && agent.output_schema) problems.push(`${agent.id}: majority merge votes on [YES]/[NO] lines and cannot produce output_schema JSON; use merge: judge`);
+        if (ensemble.tie_breaker !== undefined && ensemble.tie_breaker !== 'YES' && ensemble.tie_breaker !== 'NO') problems.push(`${agent.id}: ensemble tie_breaker must be YES or NO`);
+        if (ensemble.min_successful !== undefined && !(ensemble.min_successful >= 1 && ensemble.min_successful <= (ensemble.models?.length || 0))) {
+            problems.push(`${agent.id}: ensemble min_successful must be between 1 and the number of models`);
+        }
+        return problems;
+    });
+}
@@ -0,0 +1,297 @@
+import type {
+    Agent, AgentsConfig, ApiKeys, EvalAssertion, EvalCase, EvalCaseResult, EvalCheck, EvalJudge, EvalRun, JsonSchema, PipelineResult,
+} from '../types';
+import { createPendingResults, runPipeline } from './pipelineService';
+import { DOCUMENT_INPUT, getAgentDependencies } from './dagService';
+import { getMissingRunVariables } from './templateService';
+import { parseJsonOutput } from './schemaService';
+import { calculateCost } from './costService';
+import { describeError, isAbortError, runAgent } from './llmService';
+import { hashDocument } from './historyService';
+import { findCategoryMarker } from './ensembleService';
+
+const DEFAULT_PASS_SCORE = 4;
+
+const JUDGE_SCHEMA: JsonSchema = {
+    type: 'object',
+    required: ['score', 'reasoning'],
+    properties: {
+        score: { type: 'integer', description: '1 (fails the rubric) to 5 (fully meets it)' },
+        reasoning: { type: 'string' },
+    },
+};
+
+export interface EvalRunOptions {
+    signal?: AbortSignal;
+    onResult?: (result: EvalCaseResult) => void;
+    // The CLI reads `document_file`; without it a case must carry its document inline.
+    loadDocument?: (evalCase: EvalCase) => Promise<string>;
+}
+
+export interface EvalAgentSummary {
+    agent_id: string;
+    prompt_version: string;
+    passed: number;
+    total: number;
+}
+
+export interface EvalVersionTrend {
+    prompt_version: string;
+    first_run_at: number;
+    runs: { run_id: string; started_at: number; passed: number; total: number }[];
+}
+
+// Everything in the agent that shapes its output; renaming or re-describing it keeps the version.
+export async function getPromptVersion(agent: Agent): Promise<string> {
+    const { prompt, model, output_schema, input_transforms, chunking, tools, max_tool_rounds, ensemble } = agent;
+    const { timeout_ms, ...modelSettings } = model;
+    const hash = await hashDocument(JSON.stringify({ prompt, model: modelSettings, output_schema, input_transforms, chunking, tools, max_tool_rounds, ensemble }));
+    return hash.slice(0, 8);
+}
+
+// The agent under test plus every upstream step it needs, in agents.yaml order. Steps without
+// `inputs` read the previous enabled agent, as they would in a full run.
+export function getEvalAgentIds(config: AgentsConfig, agentId: string): string[] {
+    const order = config.agents.filter(agent => agent.enabled !== false || agent.id === agentId).map(agent => agent.id);
+    const needed = new Set<string>();
+    const visit = (id: string) => {
+        const agent = config.agents.find(a => a.id === id);
+        if (!agent || needed.has(id)) return;
+        needed.add(id);
+        getAgentDependencies(agent, order).filter(input => input !== DOCUMENT_INPUT).forEach(visit);
+    };
+    visit(agentId);
+    return order.filter(id => needed.has(id));
+}
+
+function describeAssertion(assertion: EvalAssertion): string {
+    switch (assertion.type) {
+        case 'contains': return `contains "${assertion.value}"`;
+        case 'not_contains': return `does not contain "${assertion.value}"`;
+        case 'equals': return 'equals the expected text';
+        case 'regex': return `matches /${assertion.pattern}/${assertion.flags || ''}`;
+        case 'json_equals': return `${assertion.path} equals ${JSON.stringify(assertion.value)}`;
+        case 'category': return `${assertion.category} is [${assertion.expected}]`;
+        default: return `unknown assertion "${(assertion as { type: string }).type}"`;
+    }
+}
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+function readPath(value: unknown, path: string): unknown {
+    return path.split('.').filter(Boolean).reduce<unknown>((current, key) =>
+        current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined, value);
+}
+
+export function checkAssertion(assertion: EvalAssertion, output: string, structured: unknown): EvalCheck {
+    const label = describeAssertion(assertion);
+    try {
+        switch (assertion.type) {
+            case 'contains':
+                return { label, passed: output.toLowerCase().includes(String(assertion.value).toLowerCase()) };
+            case 'not_contains':
+                return { label, passed: !output.toLowerCase().includes(String(assertion.value).toLowerCase()) };
+            case 'equals':
+                return { label, passed: normalizeWhitespace(output) === normalizeWhitespace(String(assertion.value)) };
+            case 'regex':
+                return { label, passed: new RegExp(assertion.pattern, assertion.flags).test(output) };
+            case 'json_equals': {
+                const value = structured !== undefined ? structured : parseJsonOutput(output).value;
+                if (value === undefined) return { label, passed: false, detail: 'output is not JSON' };
+                const actual = readPath(value, assertion.path);
+                return { label, passed: JSON.stringify(actual) === JSON.stringify(assertion.value), detail: `got ${JSON.stringify(actual)}` };
+            }
+            case 'category': {
+                const marker = findCategoryMarker(output, assertion.category);
+                if (!marker) return { label, passed: false, detail: 'no [YES]/[NO] line for this category' };
+                return { label, passed: marker === String(assertion.expected).toUpperCase(), detail: `got [${marker}]` };
+            }
+            default:
+                return { label, passed: false };
+        }
+    } catch (e) {
+        return { label, passed: false, detail: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+async function judgeOutput(judge: EvalJudge, config: AgentsConfig, evalCase: EvalCase, output: string, apiKeys: ApiKeys, signal?: AbortSignal) {
+    const agent: Agent = {
+        id: 'eval_judge',
+        name: 'Eval Judge',
+        description: '',
+        enabled: true,
+        model: (judge.model || config.evals?.judge_model)!,
+        prompt: [
+            'You grade the output of an AI agent that reviews FDA submissions against a rubric.',
+            'Score from 1 (fails the rubric) to 5 (fully meets it) and explain the score in two or three sentences.',
+            `Rubric:\n${judge.rubric}`,
+        ].join('\n\n'),
+        output_schema: JUDGE_SCHEMA,
+    };
+    const input = evalCase.expected_output
+        ? `## Reference answer\n\n${evalCase.expected_output}\n\n## Output to grade\n\n${output}`
+        : `## Output to grade\n\n${output}`;
+    const result = await runAgent(agent, input, apiKeys, { signal });
+    const verdict = result.structuredOutput as { score?: number; reasoning?: string } | undefined;
+    return {
+        score: Number(verdict?.score) || 0,
+        reasoning: verdict?.reasoning || result.output,
+        cost: calculateCost(result.usage, result.model, config.pricing),
+    };
+}
+
+async function runEvalCase(config: AgentsConfig, evalCase: EvalCase, apiKeys: ApiKeys, options: EvalRunOptions): Promise<EvalCaseResult> {
+    const agent = config.agents.find(a => a.id === evalCase.agent);
+    const base = {
+        case_id: evalCase.id,
+        case_name: evalCase.name || evalCase.id,
+        agent_id: evalCase.agent,
+        prompt_version: agent ? await getPromptVersion(agent) : '',
+        checks: [],
+        output: '',
+    };
+    if (!agent) return { ...base, passed: false, error: `Unknown agent "${evalCase.agent}"` };
+
+    try {
+        const document = evalCase.document ?? (options.loadDocument && evalCase.document_file ? await options.loadDocument(evalCase) : undefined);
+        if (document === undefined) throw new Error('The case has no document (set document, or document_file when running from the CLI).');
+
+        const selectedAgentIds = getEvalAgentIds(config, agent.id);
+        let results = createPendingResults(config.agents, selectedAgentIds);
+        await runPipeline({
+            config,
+            selectedAgentIds,
+            document,
+            apiKeys,
+            variables: evalCase.variables || {},
+            getResults: () => results,
+            publish: result => {
+                results = results.map(r => r.agent_id === result.agent_id ? result : r);
+            },
+        }, {
+            signal: options.signal,
+            // Approval gates a human review, not the output, so evals pass straight through.
+            waitForApproval: async () => {},
+        });
+        options.signal?.throwIfAborted();
+
+        const target = results.find(r => r.agent_id === agent.id) as PipelineResult;
+        const stepCost = results.reduce((sum, r) => sum + (r.cost || 0), 0);
+        if (target.status !== 'completed') {
+            const upstream = results.find(r => r.status === 'error');
+            const reason = target.status === 'skipped' ? `skipped: ${target.skip_reason}`
+                : target.error || (upstream ? `${upstream.agent_id} failed: ${upstream.error}` : `step ${target.status}`);
+            return { ...base, passed: false, output: target.output, error: reason, cost: stepCost };
+        }
+
+        const checks = (evalCase.assertions || []).map(assertion => checkAssertion(assertion, target.output, target.structured_output));
+        let judge: EvalCaseResult['judge'];
+        let judgeCost = 0;
+        if (evalCase.judge) {
+            const verdict = await judgeOutput(evalCase.judge, config, evalCase, target.output, apiKeys, options.signal);
+            const passScore = evalCase.judge.pass_score ?? DEFAULT_PASS_SCORE;
+            judge = { score: verdict.score, reasoning: verdict.reasoning };
+            judgeCost = verdict.cost || 0;
+            checks.push({ label: `judge score ≥ ${passScore}`, passed: verdict.score >= passScore, detail: `scored ${verdict.score}` });
+        }
+        return {
+            ...base,
+            passed: checks.every(check => check.passed),
+            checks,
+            output: target.output,
+            judge,
+            latency: target.latency,
+            cost: stepCost + judgeCost,
+        };
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        return { ...base, passed: false, error: describeError(e) };
+    }
+}
+
+// Cases run one at a time so their provider calls do not compete; a stop keeps finished cases.
+export async function runEvalSuite(config: AgentsConfig, cases: EvalCase[], apiKeys: ApiKeys, options: EvalRunOptions = {}): Promise<EvalRun> {
+    const run: EvalRun = { id: `eval-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, started_at: Date.now(), results: [] };
+    for (const evalCase of cases) {
+        if (options.signal?.aborted) break;
+        try {
+            const result = await runEvalCase(config, evalCase, apiKeys, options);
+            run.results.push(result);
+            options.onResult?.(result);
+        } catch (e) {
+            if (!isAbortError(e)) throw e;
+        }
+    }
+    run.finished_at = Date.now();
+    return run;
+}
+
+export function summarizeEvalRun(run: EvalRun): EvalAgentSummary[] {
+    const summaries = new Map<string, EvalAgentSummary>();
+    run.results.forEach(result => {
+        const key = `${result.agent_id}|${result.prompt_version}`;
+        const summary = summaries.get(key) || { agent_id: result.agent_id, prompt_version: result.prompt_version, passed: 0, total: 0 };
+        summary.total++;
+        if (result.passed) summary.passed++;
+        summaries.set(key, summary);
+    });
+    return Array.from(summaries.values());
+}
+
+// Per agent, its prompt versions in the order they were first evaluated, each with its runs oldest first.
+export function getEvalTrends(runs: EvalRun[]): Record<string, EvalVersionTrend[]> {
+    const trends: Record<string, EvalVersionTrend[]> = {};
+    [...runs].sort((a, b) => a.started_at - b.started_at).forEach(run => {
+        summarizeEvalRun(run).forEach(summary => {
+            const versions = trends[summary.agent_id] || (trends[summary.agent_id] = []);
+            let trend = versions.find(v => v.prompt_version === summary.prompt_version);
+            if (!trend) {
+                trend = { prompt_version: summary.prompt_version, first_run_at: run.started_at, runs: [] };
+                versions.push(trend);
+            }
+            trend.runs.push({ run_id: run.id, started_at: run.started_at, passed: summary.passed, total: summary.total });
+        });
+    });
+    return trends;
+}
+
+function validateAssertion(assertion: EvalAssertion, where: string): string[] {
+    switch (assertion.type) {
+        case 'contains':
+        case 'not_contains':
+        case 'equals':
+            return assertion.value === undefined ? [`${where}: ${assertion.type} needs a value`] : [];
+        case 'regex':
+            try {
+                new RegExp(assertion.pattern, assertion.flags);
+                return [];
+            } catch (e) {
+                return [`${where}: invalid regex: ${e instanceof Error ? e.message : String(e)}`];
+            }
+        case 'json_equals':
+            return assertion.path ? [] : [`${where}: json_equals needs a path`];
+        case 'category':
+            return assertion.category && ['YES', 'NO'].includes(String(assertion.expected).toUpperCase())
+                ? [] : [`${where}: category needs a category and expected YES or NO`];
+        default:
+            return [`${where}: unknown assertion type "${(assertion as { type: string }).type}"`];
+    }
+}
+
+export function validateEvals(config: AgentsConfig): string[] {
+    const cases = config.evals?.cases || [];
+    const problems: string[] = [];
+    cases.forEach((evalCase, index) => {
+        const where = `evals: ${evalCase.id || `case ${index + 1}`}`;
+        if (!evalCase.id) problems.push(`${where}: id is required`);
+        else if (cases.findIndex(c => c.id === evalCase.id) !== index) problems.push(`${where}: duplicate id`);
+        if (!config.agents.some(agent => agent.id === evalCase.agent)) problems.push(`${where}: unknown agent "${evalCase.agent}"`);
+        if (evalCase.document === undefined && !evalCase.document_file) problems.push(`${where}: document or document_file is required`);
+        if (!evalCase.assertions?.length && !evalCase.judge) problems.push(`${where}: add assertions or a judge`);
+        (evalCase.assertions || []).forEach(assertion => problems.push(...validateAssertion(assertion, where)));
+        if (evalCase.judge && !evalCase.judge.model && !config.evals?.judge_model) problems.push(`${where}: judge needs a model (or set evals.judge_model)`);
+        getMissingRunVariables(config.variables, evalCase.variables || {})
+            .forEach(v => problems.push(`${where}: required run variable "${v.name}" is not set in variables`));
+    });
+    return problems;
+}
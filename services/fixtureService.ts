@@ -0,0 +1,136 @@
+import type { CompletionRequest, CompletionResponse, Fixture, FixtureFile, ProviderAdapter } from '../types';
+import { describeSchema } from './schemaService';
+
+const fixtures = new Map<string, Fixture>();
+const listeners = new Set<() => void>();
+let recording = false;
+
+// cyrb53: a fast, synchronous 53-bit string hash. Not cryptographic; only needs to be stable.
+function hashString(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+// runAgent appends the schema to the system prompt only for providers that cannot enforce it, so
+// the appended copy is dropped to let a fixture recorded on one provider replay on the mock.
+function getBaseSystem(request: CompletionRequest): string {
+    const system = request.system || '';
+    const suffix = request.responseSchema ? `\n\n${describeSchema(request.responseSchema)}` : '';
+    return suffix && system.endsWith(suffix) ? system.slice(0, -suffix.length) : system;
+}
+
+// Everything that shapes the answer except the model and the sampling settings.
+export function hashPrompt(request: CompletionRequest): string {
+    return hashString(JSON.stringify({
+        system: getBaseSystem(request),
+        messages: request.messages.map(m => ({
+            role: m.role,
+            content: m.content,
+            images: (m.images || []).map(image => hashString(image.data)),
+            // Only tool-calling turns carry these, so hashes of plain prompts are unchanged.
+            ...(m.toolCalls ? { tool_calls: m.toolCalls.map(call => ({ name: call.name, arguments: call.arguments })) } : {}),
+            ...(m.toolCallId ? { tool_call: m.toolName } : {}),
+        })),
+    }));
+}
+
+const fixtureKey = (agentId: string, model: string, promptHash: string) => `${agentId}|${model}|${promptHash}`;
+
+function notify() {
+    listeners.forEach(listener => listener());
+}
+
+export function onFixturesChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getFixtureCount(): number {
+    return fixtures.size;
+}
+
+export function getFixtureModels(): string[] {
+    return Array.from(new Set(Array.from(fixtures.values()).map(f => f.model)));
+}
+
+export function isRecording(): boolean {
+    return recording;
+}
+
+export function setRecording(value: boolean) {
+    recording = value;
+    notify();
+}
+
+export function clearFixtures() {
+    fixtures.clear();
+    notify();
+}
+
+export function recordFixture(request: CompletionRequest, response: CompletionResponse, provider: string) {
+    const agentId = request.agentId || 'unknown';
+    const promptHash = hashPrompt(request);
+    fixtures.set(fixtureKey(agentId, request.model, promptHash), {
+        agent_id: agentId,
+        model: request.model,
+        prompt_hash: promptHash,
+        recorded_provider: provider,
+        recorded_at: Date.now(),
+        response,
+    });
+    notify();
+}
+
+// Exact match on agent, model and prompt; falls back to agent and prompt so a
+// recording can be replayed under a different model name.
+export function findFixture(request: CompletionRequest): Fixture | undefined {
+    const agentId = request.agentId || 'unknown';
+    const promptHash = hashPrompt(request);
+    const exact = fixtures.get(fixtureKey(agentId, request.model, promptHash));
+    if (exact) return exact;
+    return Array.from(fixtures.values()).find(f => f.agent_id === agentId && f.prompt_hash === promptHash);
+}
+
+export function exportFixtures(): FixtureFile {
+    return { version: 1, fixtures: Array.from(fixtures.values()) };
+}
+
+export function loadFixtures(file: FixtureFile): number {
+    if (!file || !Array.isArray(file.fixtures)) throw new Error('Invalid fixture file: missing "fixtures" array.');
+    file.fixtures.forEach(f => fixtures.set(fixtureKey(f.agent_id, f.model, f.prompt_hash), f));
+    notify();
+    return file.fixtures.length;
+}
+
+// Wraps a real provider so that, while recording is on, every successful response is captured.
+export function withRecording(adapter: ProviderAdapter): ProviderAdapter {
+    if (adapter.id === 'mock') return adapter;
+    return {
+        ...adapter,
+        async complete(request, apiKey) {
+            const response = await adapter.complete(request, apiKey);
+            if (recording) recordFixture(request, response, adapter.id);
+            return response;
+        },
+        stream: adapter.stream && async function* (request, apiKey) {
+            let text = '';
+            let usage: CompletionResponse['usage'];
+            for await (const chunk of adapter.stream!(request, apiKey)) {
+                if (chunk.text) text += chunk.text;
+                if (chunk.usage) usage = chunk.usage;
+                yield chunk;
+            }
+            if (recording) recordFixture(request, { text, usage }, adapter.id);
+        },
+    };
+}
@@ -1,6 +1,6 @@
 
 import { GoogleGenAI } from "@google/genai";
-import type { Agent, PageData } from '../types';
+import type { PageData } from '../types';
 
 if (!process.env.API_KEY) {
   console.warn("API_KEY environment variable not set. Using a placeholder. Please set your API key.");
@@ -38,31 +38,3 @@ export async function performOcrOnPages(pages: PageData[]): Promise<string> {
     throw new Error("Failed to perform OCR on the document pages.");
   }
 }
-
-
-export async function* runAgent(
-  agent: Agent,
-  documentText: string,
-): AsyncGenerator<string, void, unknown> {
-  const model = agent.model;
-  
-  const systemInstruction = "You are a meticulous, multilingual document analyst AI. Follow the user's instructions precisely. Be concise but complete. Prioritize correctness and faithfulness to the source document.";
-  const userPrompt = `${agent.prompt}\n\n--- DOCUMENT CONTENT ---\n${documentText}`;
-  
-  try {
-    const response = await ai.models.generateContentStream({
-      model,
-      contents: { parts: [{ text: userPrompt }] },
-      config: {
-        systemInstruction,
-      }
-    });
-
-    for await (const chunk of response) {
-      yield chunk.text;
-    }
-  } catch (error) {
-    console.error(`Error running agent "${agent.name}":`, error);
-    throw new Error(`Agent "${agent.name}" failed to execute.`);
-  }
-}
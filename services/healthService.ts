@@ -0,0 +1,40 @@
+import type { ApiKeys, ProviderHealth } from '../types';
+import { getApiKey, getProvider } from './providers';
+
+const HEALTH_CHECK_TIMEOUT_MS = 10000;
+
+export async function checkProviderHealth(providerId: string, apiKeys: ApiKeys, timeoutMs = HEALTH_CHECK_TIMEOUT_MS): Promise<ProviderHealth> {
+    const provider = getProvider(providerId);
+    if (provider.requiresApiKey && !apiKeys[provider.id]) return { status: 'Not Configured' };
+
+    const signal = AbortSignal.timeout(timeoutMs);
+    const startTime = Date.now();
+    try {
+        const apiKey = getApiKey(provider, apiKeys);
+        let models: string[] | undefined;
+        if (provider.listModels) {
+            models = (await provider.listModels(apiKey, signal)).sort();
+        } else {
+            await provider.complete({
+                model: provider.defaultModel,
+                messages: [{ role: 'user', content: 'ping' }],
+                maxTokens: 1,
+                signal,
+                agentId: 'health',
+            }, apiKey);
+        }
+        return { status: 'OK', latency_ms: Date.now() - startTime, models, checked_at: Date.now() };
+    } catch (error) {
+        const message = error instanceof Error && error.name === 'TimeoutError'
+            ? `No response within ${timeoutMs / 1000}s`
+            : error instanceof Error ? error.message : String(error);
+        return { status: 'Error', latency_ms: Date.now() - startTime, error: message, checked_at: Date.now() };
+    }
+}
+
+// Undefined when the provider has not reported a model list. A listed dated
+// snapshot (e.g. `claude-sonnet-4-5-20250929`) counts as a match for its alias.
+export function isModelAvailable(health: ProviderHealth | undefined, model: string): boolean | undefined {
+    if (!health?.models) return undefined;
+    return health.models.some(name => name === model || name.startsWith(`${model}-`));
+}
@@ -0,0 +1,123 @@
+import type { AgentsConfig, EvalRun, OcrJob, PipelineResult, RunRecord, RunSummary } from '../types';
+import { resolveRunVariables } from './templateService';
+
+const DB_NAME = 'agent-pipeline-history';
+const DB_VERSION = 2;
+const RUN_STORE = 'runs';
+const EVAL_STORE = 'eval_runs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            // Version 1 had only the runs store; each store is created when missing.
+            request.onupgradeneeded = () => {
+                [RUN_STORE, EVAL_STORE].forEach(name => {
+                    if (request.result.objectStoreNames.contains(name)) return;
+                    request.result.createObjectStore(name, { keyPath: 'id' }).createIndex('started_at', 'started_at');
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = RUN_STORE): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export async function hashDocument(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function createRunId(): string {
+    return `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function summarizeResults(results: PipelineResult[]): RunSummary {
+    return {
+        steps: results.length,
+        completed: results.filter(r => r.status === 'completed').length,
+        error: results.filter(r => r.status === 'error').length,
+        cancelled: results.filter(r => r.status === 'cancelled').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        prompt_tokens: results.reduce((sum, r) => sum + (r.usage?.prompt_tokens || 0), 0),
+        completion_tokens: results.reduce((sum, r) => sum + (r.usage?.completion_tokens || 0), 0),
+        cost: results.reduce((sum, r) => sum + (r.cost || 0), 0),
+        latency: results.reduce((sum, r) => sum + (r.latency || 0), 0),
+    };
+}
+
+export async function createRunRecord(
+    run: { id: string; started_at: number },
+    document: string,
+    config: AgentsConfig,
+    selectedAgentIds: string[],
+    variables: Record<string, string>,
+    results: PipelineResult[],
+    ocrJobs: OcrJob[]
+): Promise<RunRecord> {
+    return {
+        ...run,
+        finished_at: Date.now(),
+        document,
+        document_hash: await hashDocument(document),
+        agents_config: config,
+        selected_agent_ids: selectedAgentIds,
+        run_variables: resolveRunVariables(config.variables, variables),
+        results,
+        ocr_jobs: ocrJobs,
+        summary: summarizeResults(results),
+    };
+}
+
+// Saving an existing id overwrites it, so a run can be re-saved after edits and approvals.
+// The configuration snapshot stays the one the run was first saved with.
+export async function saveRun(run: RunRecord): Promise<void> {
+    const saved = await getRun(run.id);
+    await withStore('readwrite', store => store.put(saved ? { ...run, agents_config: saved.agents_config } : run));
+}
+
+// Newest first.
+export async function listRuns(): Promise<RunRecord[]> {
+    const runs = await withStore<RunRecord[]>('readonly', store => store.index('started_at').getAll());
+    return runs.reverse();
+}
+
+export async function getRun(id: string): Promise<RunRecord | undefined> {
+    return withStore<RunRecord | undefined>('readonly', store => store.get(id));
+}
+
+export async function deleteRun(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearRuns(): Promise<void> {
+    await withStore('readwrite', store => store.clear());
+}
+
+export async function saveEvalRun(run: EvalRun): Promise<void> {
+    await withStore('readwrite', store => store.put(run), EVAL_STORE);
+}
+
+// Oldest first, the order trends are drawn in.
+export async function listEvalRuns(): Promise<EvalRun[]> {
+    return withStore<EvalRun[]>('readonly', store => store.index('started_at').getAll(), EVAL_STORE);
+}
+
+export async function clearEvalRuns(): Promise<void> {
+    await withStore('readwrite', store => store.clear(), EVAL_STORE);
+}
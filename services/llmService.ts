@@ -1,104 +1,295 @@
+import type { Agent, ApiKeys, ChatMessage, ChunkProgress, CompletionRequest, EnsembleResult, JsonSchema, LLMMessage, ModelTarget, ProviderAdapter, ProviderAttempt, TokenUsage, ToolCall, ToolCallRecord } from '../types';
+import { getApiKey, getProvider, listProviders, ProviderError, resolveProviderId } from './providers';
+import { DEFAULT_RETRY_POLICY, resolveRetryPolicy, withRetry } from './retryService';
+import { withRecording } from './fixtureService';
+import { addUsage } from './costService';
+import { chunkText, getChunkBudget } from './chunkingService';
+import { buildRepairPrompt, describeSchema, parseJsonOutput, validateSchema } from './schemaService';
+import { getToolDefinitions, runTool } from './toolService';
 
-import { GoogleGenAI } from "@google/genai";
-import type { Agent, ApiKeys, ChatMessage } from '../types';
+const DEFAULT_OUTPUT_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MAX_TOOL_ROUNDS = 8;
 
-interface AgentExecutionResult {
+export interface AgentExecutionResult {
     output: string;
     latency: number;
-    provider: 'gemini' | 'openai';
+    firstTokenLatency?: number;
+    provider: string;
+    model: string;
+    usage?: TokenUsage;
+    structuredOutput?: unknown;
+    validationErrors?: string[];
+    repairAttempts?: number;
+    chunks?: number;
+    // Position in getModelChain of the model that answered; 0 is the primary.
+    fallbackIndex?: number;
+    toolCalls?: ToolCall[];
+    // Set by runEnsemble.
+    ensemble?: EnsembleResult;
 }
 
-export async function runAgent(agent: Agent, userInput: string, apiKeys: ApiKeys): Promise<AgentExecutionResult> {
-    const { model, prompt } = agent;
-    const provider = model.provider === 'auto' ? (apiKeys.gemini ? 'gemini' : 'openai') : model.provider;
+export interface RunAgentOptions {
+    // When set, the output is streamed and this receives the accumulated text after each delta.
+    onToken?: (partialOutput: string) => void;
+    signal?: AbortSignal;
+    onAttempt?: (attempt: ProviderAttempt) => void;
+    onChunkProgress?: (progress: ChunkProgress) => void;
+    // The source document the agent's tools search and page through; defaults to the input.
+    document?: string;
+    onToolCall?: (record: ToolCallRecord) => void;
+}
+
+// Thrown by runAgent when every model in the chain failed; `details` keeps one line per model tried.
+export class AgentRunError extends Error {
+    details: string[];
+
+    constructor(message: string, details: string[]) {
+        super(message);
+        this.name = 'AgentRunError';
+        this.details = details;
+    }
+}
+
+// The provider's message plus the HTTP status and error code it came with.
+export function describeError(error: unknown): string {
+    if (error instanceof ProviderError) {
+        const meta = [error.status && `HTTP ${error.status}`, error.code].filter(Boolean).join(', ');
+        return meta ? `${error.message} (${meta})` : error.message;
+    }
+    return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+const defaultReducePrompt = (prompt: string, parts: number) =>
+    `${prompt}\n\nThe document was too long to process at once, so it was split into ${parts} parts and each part was processed separately with the instructions above. Merge the partial results below into one complete response, removing duplicates and resolving overlaps.`;
+
+const defaultRefinePrompt = (prompt: string) =>
+    `${prompt}\n\nThe document is being processed one part at a time. Update the existing answer with any new information from the next part, keeping everything that is still accurate. Respond with the full updated answer only.`;
+
+function checkStructuredOutput(output: string, schema: JsonSchema): { value?: unknown; errors: string[] } {
+    const parsed = parseJsonOutput(output);
+    if (parsed.error) return { errors: [parsed.error] };
+    return { value: parsed.value, errors: validateSchema(parsed.value, schema) };
+}
+
+// The primary model followed by the agent's fallbacks, in the order they are tried.
+// An 'auto' agent without declared fallbacks falls back to every other keyed provider's default model.
+export function getModelChain(agent: Agent, apiKeys: ApiKeys): ModelTarget[] {
+    const { provider, name, timeout_ms } = agent.model;
+    const primary: ModelTarget = { provider: resolveProviderId(provider, apiKeys), name, timeout_ms };
+    if (agent.fallbacks) return [primary, ...agent.fallbacks];
+    if (provider !== 'auto') return [primary];
+    return [
+        primary,
+        ...listProviders()
+            .filter(p => p.requiresApiKey && apiKeys[p.id] && p.id !== primary.provider)
+            .map(p => ({ provider: p.id, name: p.defaultModel, timeout_ms })),
+    ];
+}
+
+export async function runAgent(agent: Agent, userInput: string, apiKeys: ApiKeys, options: RunAgentOptions = {}): Promise<AgentExecutionResult> {
+    const { model, prompt, output_schema: schema } = agent;
+    const chain = getModelChain(agent, apiKeys);
+    const tools = agent.tools && agent.tools.length > 0 ? getToolDefinitions(agent.tools) : undefined;
 
     const startTime = Date.now();
 
-    if (provider === 'gemini') {
-        if (!apiKeys.gemini) throw new Error("Gemini API key is not configured.");
-        try {
-            // Using process.env.API_KEY is a placeholder as per instructions.
-            // In a real client-side app, we pass the key from state.
-            const ai = new GoogleGenAI({ apiKey: apiKeys.gemini });
-            
-            const fullPrompt = `${prompt}\n\n---\n\n${userInput}`;
-
-            const response = await ai.models.generateContent({
-                model: model.name,
-                contents: fullPrompt,
-                config: {
-                    temperature: model.temperature,
-                    maxOutputTokens: model.max_tokens,
-                }
-            });
-            const output = response.text;
+    const attemptOnce = async (
+        provider: ProviderAdapter,
+        apiKey: string,
+        target: ModelTarget,
+        request: CompletionRequest,
+        onToken?: (partialOutput: string) => void
+    ): Promise<AgentExecutionResult> => {
+        const signals = [options.signal, target.timeout_ms ? AbortSignal.timeout(target.timeout_ms) : undefined].filter((s): s is AbortSignal => !!s);
+        const targetRequest: CompletionRequest = {
+            ...request,
+            model: target.name,
+            // Providers that cannot enforce a schema get it spelled out in the prompt instead; so do
+            // tool-calling requests, since JSON mode and function calling cannot be combined on every API.
+            system: request.responseSchema && (!provider.supportsResponseSchema || request.tools)
+                ? `${request.system}\n\n${describeSchema(request.responseSchema)}`
+                : request.system,
+            responseSchema: request.tools ? undefined : request.responseSchema,
+            signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+        };
+
+        if (request.tools && !provider.supportsTools) {
+            throw new ProviderError(`${provider.label} does not support tool calling.`, { retryable: false });
+        }
+
+        if (onToken && provider.stream && !request.tools) {
+            // A retried stream starts over, so the partial output is reset on every attempt.
+            let output = '';
+            let usage: TokenUsage | undefined;
+            let firstTokenLatency: number | undefined;
+            onToken(output);
+            for await (const chunk of provider.stream(targetRequest, apiKey)) {
+                targetRequest.signal?.throwIfAborted();
+                if (chunk.usage) usage = chunk.usage;
+                if (!chunk.text) continue;
+                if (firstTokenLatency === undefined) firstTokenLatency = (Date.now() - startTime) / 1000;
+                output += chunk.text;
+                onToken(output);
+            }
             const latency = (Date.now() - startTime) / 1000;
-            return { output, latency, provider };
+            return { output, latency, firstTokenLatency, provider: provider.id, model: target.name, usage };
+        }
 
-        } catch (error) {
-            console.error("Gemini API Error:", error);
-            throw error;
+        const { text, usage, toolCalls } = await provider.complete(targetRequest, apiKey);
+        const latency = (Date.now() - startTime) / 1000;
+        return { output: text, latency, provider: provider.id, model: target.name, usage, toolCalls };
+    };
+
+    // Retries each target per the agent's policy, then falls over to the next one on failure or timeout.
+    const execute = async (request: CompletionRequest, onToken?: (partialOutput: string) => void): Promise<AgentExecutionResult> => {
+        let lastError: unknown;
+        const failures: string[] = [];
+        for (let index = 0; index < chain.length; index++) {
+            const target = chain[index];
+            try {
+                const provider = withRecording(getProvider(target.provider));
+                const apiKey = getApiKey(provider, apiKeys);
+                const result = await withRetry(() => attemptOnce(provider, apiKey, target, request, onToken), resolveRetryPolicy(agent.retry), {
+                    provider: provider.id,
+                    model: target.name,
+                    signal: options.signal,
+                    onAttempt: options.onAttempt,
+                });
+                return { ...result, fallbackIndex: index };
+            } catch (error) {
+                if (options.signal?.aborted) throw error;
+                lastError = error;
+                failures.push(`${target.provider}/${target.name}: ${describeError(error)}`);
+            }
         }
-    } else if (provider === 'openai') {
-        if (!apiKeys.openai) throw new Error("OpenAI API key is not configured.");
-        try {
-            const response = await fetch("https://api.openai.com/v1/chat/completions", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": `Bearer ${apiKeys.openai}`
-                },
-                body: JSON.stringify({
-                    model: model.name,
-                    messages: [
-                        { role: "system", content: prompt },
-                        { role: "user", content: userInput }
-                    ],
-                    temperature: model.temperature,
-                    max_tokens: model.max_tokens
-                })
-            });
+        throw new AgentRunError(lastError instanceof Error ? lastError.message : String(lastError), failures);
+    };
 
-            if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(`OpenAI API Error: ${errorData.error.message}`);
+    // Runs the agent's tools for every call the model makes and sends the results back until it answers.
+    // Tool rounds are not streamed; the answer is passed to onToken once it arrives.
+    const executeWithTools = async (request: CompletionRequest, onToken?: (partialOutput: string) => void): Promise<AgentExecutionResult> => {
+        if (!tools) return execute(request, onToken);
+        const maxRounds = agent.max_tool_rounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+        let messages: LLMMessage[] = request.messages;
+        let usage: TokenUsage | undefined;
+        for (let round = 0; ; round++) {
+            const result = await execute({ ...request, messages, tools });
+            usage = addUsage(usage, result.usage);
+            if (!result.toolCalls || result.toolCalls.length === 0) {
+                onToken?.(result.output);
+                return { ...result, usage, toolCalls: undefined };
             }
+            if (round >= maxRounds) throw new Error(`Agent ${agent.id} was still calling tools after ${maxRounds} round(s) (max_tool_rounds).`);
+            const results = result.toolCalls.map(toolCall => {
+                const record = runTool(toolCall, options.document ?? request.messages[0].content);
+                options.onToolCall?.(record);
+                return { role: 'tool' as const, content: record.result, toolCallId: toolCall.id, toolName: toolCall.name };
+            });
+            messages = [...messages, { role: 'assistant', content: result.output, toolCalls: result.toolCalls }, ...results];
+        }
+    };
 
-            const data = await response.json();
-            const output = data.choices[0].message.content;
-            const latency = (Date.now() - startTime) / 1000;
-            return { output, latency, provider };
+    // One model call; only calls that produce the final answer are streamed and checked against output_schema.
+    const call = async (system: string, content: string, final: boolean): Promise<AgentExecutionResult> => {
+        const outputSchema = final ? schema : undefined;
+        const request: CompletionRequest = {
+            model: model.name,
+            system,
+            messages: [{ role: 'user', content }],
+            temperature: model.temperature,
+            maxTokens: model.max_tokens,
+            signal: options.signal,
+            responseSchema: outputSchema,
+            agentId: agent.id,
+        };
+        const onToken = final ? options.onToken : undefined;
+
+        let result = await executeWithTools(request, onToken);
+        if (!outputSchema) return result;
 
-        } catch (error) {
-            console.error("OpenAI API Error:", error);
-            throw error;
+        // Feed invalid output back with the violations and ask for a corrected version.
+        const maxRepairs = agent.output_repair_attempts ?? DEFAULT_OUTPUT_REPAIR_ATTEMPTS;
+        let messages = request.messages;
+        let check = checkStructuredOutput(result.output, outputSchema);
+        let repairAttempts = 0;
+        while (check.errors.length > 0 && repairAttempts < maxRepairs) {
+            repairAttempts++;
+            messages = [
+                ...messages,
+                { role: 'assistant', content: result.output },
+                { role: 'user', content: buildRepairPrompt(check.errors, outputSchema) },
+            ];
+            const repaired = await executeWithTools({ ...request, messages }, onToken);
+            result = {
+                ...repaired,
+                firstTokenLatency: result.firstTokenLatency,
+                usage: addUsage(result.usage, repaired.usage),
+            };
+            check = checkStructuredOutput(result.output, outputSchema);
         }
-    } else {
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
-}
 
+        return {
+            ...result,
+            output: check.value !== undefined ? JSON.stringify(check.value, null, 2) : result.output,
+            structuredOutput: check.value,
+            validationErrors: check.errors,
+            repairAttempts,
+        };
+    };
 
-export async function getOpenAIChatCompletion(messages: ChatMessage[], apiKey: string, model: string = 'gpt-4o-mini') {
-    if (!apiKey) throw new Error("OpenAI API key is not configured.");
+    try {
+        const strategy = agent.chunking?.strategy ?? 'none';
+        const chunks = strategy === 'none' ? [userInput] : chunkText(userInput, getChunkBudget(agent, chain.map(target => target.name)), agent.chunking?.overlap_pages ?? 1);
+        if (chunks.length === 1) return await call(prompt, userInput, true);
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-            model: model,
-            messages: messages,
-        })
-    });
+        const total = chunks.length;
+        let usage: TokenUsage | undefined;
+        let result: AgentExecutionResult;
 
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenAI API Error: ${errorData.error.message}`);
+        if (strategy === 'refine') {
+            const refinePrompt = agent.chunking?.refine_prompt || defaultRefinePrompt(prompt);
+            let answer = '';
+            for (let i = 0; i < total; i++) {
+                options.onChunkProgress?.({ phase: 'refine', completed: i, total });
+                result = i === 0
+                    ? await call(prompt, chunks[0], false)
+                    : await call(refinePrompt, `Existing answer:\n\n${answer}\n\n---\n\nNext part of the document (${i + 1} of ${total}):\n\n${chunks[i]}`, i === total - 1);
+                answer = result.output;
+                usage = addUsage(usage, result.usage);
+            }
+            options.onChunkProgress?.({ phase: 'refine', completed: total, total });
+        } else {
+            const partials: string[] = [];
+            for (let i = 0; i < total; i++) {
+                options.onChunkProgress?.({ phase: 'map', completed: i, total });
+                const mapped = await call(`${prompt}\n\nThe input is part ${i + 1} of ${total} of a longer document. Work only from this part.`, chunks[i], false);
+                partials.push(mapped.output);
+                usage = addUsage(usage, mapped.usage);
+            }
+            options.onChunkProgress?.({ phase: 'reduce', completed: total, total });
+            const reducePrompt = agent.chunking?.reduce_prompt || defaultReducePrompt(prompt, total);
+            result = await call(reducePrompt, partials.map((text, i) => `## Part ${i + 1} of ${total}\n\n${text}`).join('\n\n'), true);
+            usage = addUsage(usage, result.usage);
+        }
+
+        return { ...result!, usage, chunks: total };
+    } catch (error) {
+        if (!isAbortError(error)) console.error(`Agent ${agent.id} failed:`, error);
+        throw error;
     }
+}
 
-    const data = await response.json();
-    return data.choices[0].message.content as string;
+export async function getChatCompletion(messages: ChatMessage[], providerId: string, apiKeys: ApiKeys, model?: string, signal?: AbortSignal) {
+    const provider = withRecording(getProvider(providerId));
+    const key = getApiKey(provider, apiKeys);
+    const request: CompletionRequest = { model: model || provider.defaultModel, messages, signal, agentId: 'chat' };
+    const { text } = await withRetry(() => provider.complete(request, key), DEFAULT_RETRY_POLICY, {
+        provider: provider.id,
+        signal,
+    });
+    return text;
 }
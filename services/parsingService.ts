@@ -1,6 +1,17 @@
 
-import type { ApiKeys } from '../types';
-import { GoogleGenAI } from '@google/genai';
+import type { ApiKeys, ModelPrice, OcrJob, OcrSettings, TokenUsage } from '../types';
+import { getApiKey, getProvider } from './providers';
+import { isAbortError } from './llmService';
+import { DEFAULT_RETRY_POLICY, isRetryableError, withRetry } from './retryService';
+import { addUsage, calculateCost } from './costService';
+import { PAGE_SEPARATOR } from '../constants';
+import { withRecording } from './fixtureService';
+
+interface OcrResult {
+    text: string;
+    pages: number;
+    usage: TokenUsage;
+}
 
 // This function needs to be in the global scope for pdf.js
 declare global {
@@ -10,26 +21,38 @@ declare global {
     }
 }
 
+// The CLI runs without window.pdfjsLib and passes the pdfjs-dist module in instead.
+let nodePdfLib: any = null;
+
+export function setPdfLib(lib: any) {
+    nodePdfLib = lib;
+}
+
 async function getPdfDoc(file: File) {
-    const pdfjsLib = window.pdfjsLib;
-    pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorker;
+    const pdfjsLib = nodePdfLib || window.pdfjsLib;
+    if (!nodePdfLib) pdfjsLib.GlobalWorkerOptions.workerSrc = window.pdfjsWorker;
     const arrayBuffer = await file.arrayBuffer();
-    return pdfjsLib.getDocument(arrayBuffer).promise;
+    return pdfjsLib.getDocument(new Uint8Array(arrayBuffer)).promise;
+}
+
+// Throws on unreadable PDFs; parsePdfToText turns that into text for the upload preview.
+export async function extractPdfText(file: File): Promise<string> {
+    const pdf = await getPdfDoc(file);
+    const numPages = pdf.numPages;
+    const textParts: string[] = [];
+
+    for (let i = 1; i <= numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const pageText = textContent.items.map((item: any) => item.str).join(' ');
+        textParts.push(pageText);
+    }
+    return textParts.join(PAGE_SEPARATOR);
 }
 
 export async function parsePdfToText(file: File): Promise<string> {
     try {
-        const pdf = await getPdfDoc(file);
-        const numPages = pdf.numPages;
-        const textParts: string[] = [];
-
-        for (let i = 1; i <= numPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            textParts.push(pageText);
-        }
-        return textParts.join('\n\n---\nPage Separator\n---\n\n');
+        return await extractPdfText(file);
     } catch (e) {
         console.error("Standard PDF parsing error:", e);
         return `Error parsing PDF: ${e instanceof Error ? e.message : String(e)}`;
@@ -42,23 +65,24 @@ function canvasToDataURL(canvas: HTMLCanvasElement): string {
 
 export async function parsePdfWithLLM(
     file: File, 
-    provider: 'gemini' | 'openai', 
+    providerId: string, 
     modelName: string, 
     apiKeys: ApiKeys, 
-    onProgress: (progress: number, text: string) => void
-): Promise<string> {
+    onProgress: (progress: number, text: string) => void,
+    signal?: AbortSignal
+): Promise<OcrResult> {
     
-    const apiKey = provider === 'gemini' ? apiKeys.gemini : apiKeys.openai;
-    if (!apiKey) {
-        throw new Error(`API key for ${provider} is not configured.`);
-    }
+    const provider = withRecording(getProvider(providerId));
+    const apiKey = getApiKey(provider, apiKeys);
 
     try {
         const pdf = await getPdfDoc(file);
         const numPages = pdf.numPages;
         const extractedTextParts: string[] = [];
+        let usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0 };
 
         for (let i = 1; i <= numPages; i++) {
+            signal?.throwIfAborted();
             onProgress(i / numPages, `Processing page ${i} of ${numPages}...`);
             
             const page = await pdf.getPage(i);
@@ -78,57 +102,48 @@ export async function parsePdfWithLLM(
             const base64Image = canvasToDataURL(canvas);
             const promptText = "Extract all text from this document page, maintaining the original structure and reading order as best as possible.";
 
-            let pageText = '';
-            
-            if (provider === 'gemini') {
-                const ai = new GoogleGenAI({ apiKey });
-                const imagePart = {
-                    inlineData: {
-                        mimeType: 'image/jpeg',
-                        data: base64Image
-                    },
-                };
-                const textPart = { text: promptText };
-                
-                const response = await ai.models.generateContent({
+            try {
+                const response = await withRetry(() => provider.complete({
                     model: modelName,
-                    contents: { parts: [imagePart, textPart] }
-                });
-                pageText = response.text;
-            } else { // openai
-                const response = await fetch("https://api.openai.com/v1/chat/completions", {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        "Authorization": `Bearer ${apiKey}`
+                    messages: [{
+                        role: 'user',
+                        content: promptText,
+                        images: [{ mimeType: 'image/jpeg', data: base64Image }]
+                    }],
+                    maxTokens: 4096,
+                    signal,
+                    agentId: 'ocr',
+                }, apiKey), DEFAULT_RETRY_POLICY, {
+                    provider: provider.id,
+                    signal,
+                    onAttempt: attempt => {
+                        if (attempt.delay_ms !== undefined) {
+                            onProgress(i / numPages, `Page ${i}: ${attempt.error} Retrying in ${(attempt.delay_ms / 1000).toFixed(1)}s...`);
+                        }
                     },
-                    body: JSON.stringify({
-                        model: modelName,
-                        messages: [{
-                            role: "user",
-                            content: [
-                                { type: "text", text: promptText },
-                                { type: "image_url", image_url: { "url": `data:image/jpeg;base64,${base64Image}` } }
-                            ]
-                        }],
-                        max_tokens: 4096,
-                    })
                 });
-
-                if (!response.ok) {
-                    const errorData = await response.json();
-                    throw new Error(`OpenAI API Error for page ${i}: ${errorData.error.message}`);
-                }
-                const data = await response.json();
-                pageText = data.choices[0].message.content;
+                extractedTextParts.push(response.text);
+                usage = addUsage(usage, response.usage)!;
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                const message = e instanceof Error ? e.message : String(e);
+                // Transient failures that outlast the retries cost one page, not the whole document.
+                if (!isRetryableError(e)) throw new Error(`Page ${i}: ${message}`);
+                extractedTextParts.push(`\n[--- OCR failed for page ${i}: ${message} ---]\n`);
             }
-
-            extractedTextParts.push(pageText);
         }
         onProgress(1, "Processing complete.");
-        return extractedTextParts.join('\n\n---\nPage Separator\n---\n\n');
+        return {
+            text: extractedTextParts.join(PAGE_SEPARATOR),
+            pages: numPages,
+            usage,
+        };
 
     } catch (e) {
+        if (isAbortError(e)) {
+            onProgress(1, "OCR cancelled.");
+            throw e;
+        }
         console.error("LLM-based OCR error:", e);
         onProgress(1, `Error during OCR: ${e instanceof Error ? e.message : String(e)}`);
         throw e;
@@ -137,14 +152,43 @@ export async function parsePdfWithLLM(
 
 
 export function parsePlainText(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            resolve(event.target?.result as string);
-        };
-        reader.onerror = (error) => {
-            reject(error);
-        };
-        reader.readAsText(file);
-    });
+    return file.text();
+}
+
+// Parses one uploaded file with the chosen OCR method; LLM OCR also reports its usage as an OcrJob.
+// An unreadable PDF throws, unless `pdfErrorsAsText` (the upload preview) asks for the error as its text.
+export async function parseFile(
+    file: File,
+    ocr: OcrSettings,
+    apiKeys: ApiKeys,
+    pricing: Record<string, ModelPrice> | undefined,
+    onProgress: (progress: number, text: string) => void,
+    signal?: AbortSignal,
+    pdfErrorsAsText = false
+): Promise<{ text: string; ocrJob?: OcrJob }> {
+    if (file.type !== 'application/pdf') {
+        onProgress(0, `Parsing ${file.name}...`);
+        const text = await parsePlainText(file);
+        onProgress(1, '');
+        return { text };
+    }
+    if (ocr.method === 'standard') {
+        onProgress(0, `Parsing ${file.name} with standard method...`);
+        const text = pdfErrorsAsText ? await parsePdfToText(file) : await extractPdfText(file);
+        onProgress(1, '');
+        return { text };
+    }
+    const result = await parsePdfWithLLM(file, ocr.provider, ocr.model, apiKeys, onProgress, signal);
+    return {
+        text: result.text,
+        ocrJob: {
+            file_name: file.name,
+            provider: ocr.provider,
+            model: ocr.model,
+            pages: result.pages,
+            usage: result.usage,
+            cost: calculateCost(result.usage, ocr.model, pricing),
+            timestamp: Date.now(),
+        },
+    };
 }
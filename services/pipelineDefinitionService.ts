@@ -0,0 +1,94 @@
+import yaml from 'js-yaml';
+import type { Agent, AgentOverrides, AgentsConfig, PipelineDefinition, PipelineStepDefinition } from '../types';
+import { buildDependencyMap, validateDependencies } from './dagService';
+
+export function getPipeline(config: AgentsConfig, pipelineId: string | null | undefined): PipelineDefinition | undefined {
+    return pipelineId ? config.pipelines?.find(p => p.id === pipelineId) : undefined;
+}
+
+export function normalizeStep(step: PipelineStepDefinition): { agent: string; overrides: AgentOverrides } {
+    if (typeof step === 'string') return { agent: step, overrides: {} };
+    const { agent, ...overrides } = step;
+    return { agent, overrides };
+}
+
+export function getPipelineAgentIds(pipeline: PipelineDefinition): string[] {
+    return pipeline.steps.map(step => normalizeStep(step).agent);
+}
+
+function applyOverrides(agent: Agent, overrides: AgentOverrides): Agent {
+    return { ...agent, ...overrides, id: agent.id, model: { ...agent.model, ...overrides.model } };
+}
+
+// The config a run of `pipeline` uses: agents carry the pipeline's step overrides.
+export function applyPipeline(config: AgentsConfig, pipeline: PipelineDefinition | undefined): AgentsConfig {
+    if (!pipeline) return config;
+    const overrides = new Map(pipeline.steps.map(step => {
+        const { agent, overrides } = normalizeStep(step);
+        return [agent, overrides] as const;
+    }));
+    return {
+        ...config,
+        agents: config.agents.map(agent => overrides.has(agent.id) ? applyOverrides(agent, overrides.get(agent.id)!) : agent),
+    };
+}
+
+// A slug of `name` that no pipeline in `config` uses yet.
+export function createPipelineId(config: AgentsConfig, name: string): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'pipeline';
+    const taken = new Set((config.pipelines || []).map(p => p.id));
+    let id = base;
+    for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+    return id;
+}
+
+// Captures the current selection and run variables; overrides of steps kept from `previous` are carried over.
+export function createPipelineDefinition(
+    id: string,
+    name: string,
+    selectedAgentIds: string[],
+    variables: Record<string, string>,
+    previous?: PipelineDefinition
+): PipelineDefinition {
+    const previousSteps = new Map((previous?.steps || []).map(step => [normalizeStep(step).agent, step]));
+    const values = Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== ''));
+    return {
+        id,
+        name,
+        ...(previous?.description ? { description: previous.description } : {}),
+        steps: selectedAgentIds.map(agentId => previousSteps.get(agentId) ?? agentId),
+        ...(Object.keys(values).length > 0 ? { variables: values } : {}),
+    };
+}
+
+// Replaces the pipeline with the same id, or appends it.
+export function savePipeline(config: AgentsConfig, pipeline: PipelineDefinition): AgentsConfig {
+    const pipelines = config.pipelines || [];
+    return {
+        ...config,
+        pipelines: pipelines.some(p => p.id === pipeline.id)
+            ? pipelines.map(p => p.id === pipeline.id ? pipeline : p)
+            : [...pipelines, pipeline],
+    };
+}
+
+export function exportConfigYaml(config: AgentsConfig): string {
+    return yaml.dump(config, { lineWidth: -1, noRefs: true });
+}
+
+export function validatePipelines(config: AgentsConfig): string[] {
+    const pipelines = config.pipelines || [];
+    return pipelines.flatMap((pipeline, i) => {
+        const label = `pipelines.${pipeline.id || i}`;
+        if (!pipeline.id || !pipeline.name || !Array.isArray(pipeline.steps)) return [`${label}: id, name and steps are required`];
+        const problems: string[] = [];
+        if (pipelines.findIndex(p => p.id === pipeline.id) !== i) problems.push(`${label}: duplicate pipeline id`);
+        const ids = getPipelineAgentIds(pipeline);
+        ids.forEach((id, index) => {
+            if (!config.agents.some(agent => agent.id === id)) problems.push(`${label}: unknown agent "${id}"`);
+            else if (ids.indexOf(id) !== index) problems.push(`${label}: agent "${id}" is listed twice`);
+        });
+        if (problems.length > 0) return problems;
+        return validateDependencies(buildDependencyMap(applyPipeline(config, pipeline).agents, ids)).map(problem => `${label}: ${problem}`);
+    });
+}
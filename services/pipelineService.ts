@@ -0,0 +1,241 @@
+import type { Agent, AgentsConfig, ApiKeys, PipelineResult } from '../types';
+import { AgentRunError, describeError, isAbortError, runAgent, RunAgentOptions } from './llmService';
+import { calculateCost } from './costService';
+import { getEnsembleCost, runEnsemble } from './ensembleService';
+import { buildDependencyMap, composeInput, DOCUMENT_INPUT, getAgentInputs, validateDependencies } from './dagService';
+import { getMissingRunVariables, getReferencedSteps, renderTemplate, resolveRunVariables } from './templateService';
+import { evaluateCondition } from './conditionService';
+
+// Everything a step needs to run outside of React: the Pipeline tab and the batch queue both build one.
+export interface PipelineContext {
+    config: AgentsConfig;
+    selectedAgentIds: string[];
+    document: string;
+    apiKeys: ApiKeys;
+    variables: Record<string, string>;
+    // Latest results, including ones published earlier in the same run.
+    getResults: () => PipelineResult[];
+    publish: (result: PipelineResult) => void;
+}
+
+interface RunPipelineOptions {
+    signal?: AbortSignal;
+    // Defaults to executeStep; the Pipeline tab wraps it to allow stopping a single step.
+    runStep?: (agentId: string, signal: AbortSignal) => Promise<PipelineResult['status']>;
+    // Resolves once a reviewer approves the step. Without it, dependents of an unapproved step are not run.
+    waitForApproval?: (agentId: string, signal: AbortSignal) => Promise<void>;
+    // Steps whose existing results are kept instead of running them again (resuming a run).
+    reuse?: string[];
+}
+
+export function createPendingResults(agents: Agent[], selectedAgentIds: string[]): PipelineResult[] {
+    return selectedAgentIds.map((id, index) => ({
+        step: index + 1,
+        agent_id: id,
+        agent_name: agents.find(a => a.id === id)?.name || id,
+        input: '',
+        output: '',
+        timestamp: 0,
+        status: 'pending',
+    }));
+}
+
+// Resolves with the step's final status; rejects when it is cancelled or fails under the 'stop' policy.
+export async function executeStep(agentId: string, ctx: PipelineContext, signal?: AbortSignal): Promise<PipelineResult['status']> {
+    const { config, selectedAgentIds, document, apiKeys, variables, getResults, publish } = ctx;
+    const agent = config.agents.find(a => a.id === agentId);
+    const result = getResults().find(r => r.agent_id === agentId);
+
+    if (!agent || !result) return 'pending';
+
+    const context = {
+        document,
+        results: getResults(),
+        variables: resolveRunVariables(config.variables, variables),
+    };
+    const sources = getAgentInputs(agent, selectedAgentIds);
+    const isSkipped = (id: string) => getResults().find(r => r.agent_id === id)?.status === 'skipped';
+    const skippedInput = sources.find(isSkipped);
+    // Steps the prompt reads are inputs too; `when` may still test a skipped step's status.
+    const skippedReference = getReferencedSteps(agent.prompt || '').find(isSkipped);
+    let skipReason: string | undefined;
+    try {
+        if (skippedInput) skipReason = `Input "${skippedInput}" was skipped.`;
+        else if (skippedReference) skipReason = `Referenced step "${skippedReference}" was skipped.`;
+        else if (agent.when && !evaluateCondition(agent.when, context)) skipReason = `Condition not met: ${agent.when}`;
+    } catch (e) {
+        const error = `Invalid condition: ${e instanceof Error ? e.message : String(e)}`;
+        publish({ ...result, status: 'error', error });
+        throw new Error(error);
+    }
+    if (skipReason) {
+        publish({ ...result, input: '', output: '', error: undefined, skip_reason: skipReason, timestamp: Date.now(), status: 'skipped' });
+        return 'skipped';
+    }
+
+    const { input, missing, errors: transformErrors } = composeInput(sources, document, getResults(), agent.input_transforms);
+    const prompt = renderTemplate(agent.prompt, context);
+    const missingVariables = getMissingRunVariables(config.variables, variables);
+    const problem = missing.length > 0 ? `Input not available yet: ${missing.join(', ')}`
+        : transformErrors.length > 0 ? `Input transform failed: ${transformErrors.join('; ')}`
+        : missingVariables.length > 0 ? `Run variable(s) required: ${missingVariables.map(v => v.label || v.name).join(', ')}`
+        : prompt.missing.length > 0 ? `Prompt variable(s) not available yet: ${prompt.missing.join(', ')}`
+        : undefined;
+    if (problem) {
+        publish({ ...result, status: 'error', error: problem });
+        throw new Error(problem);
+    }
+
+    let current: PipelineResult = {
+        ...result,
+        input,
+        output: '',
+        error: undefined,
+        skip_reason: undefined,
+        original_output: undefined,
+        edit: undefined,
+        approval: undefined,
+        awaiting_approval: undefined,
+        latency: undefined,
+        first_token_latency: undefined,
+        usage: undefined,
+        cost: undefined,
+        structured_output: undefined,
+        validation_errors: undefined,
+        repair_attempts: undefined,
+        chunk_progress: undefined,
+        tool_calls: undefined,
+        fallback_index: undefined,
+        error_details: undefined,
+        on_error_applied: undefined,
+        ensemble: undefined,
+        attempts: [],
+        timestamp: Date.now(),
+        status: 'running'
+    };
+    const update = (patch: Partial<PipelineResult>) => {
+        current = { ...current, ...patch };
+        publish(current);
+    };
+    publish(current);
+
+    try {
+        const runOptions: RunAgentOptions = {
+            onToken: partialOutput => update({ output: partialOutput }),
+            onAttempt: attempt => update({
+                attempts: [...(current.attempts || []), attempt],
+                provider: attempt.provider,
+                model: attempt.model,
+                error: attempt.succeeded ? undefined : attempt.error,
+            }),
+            onChunkProgress: progress => update({ chunk_progress: progress }),
+            onToolCall: record => update({ tool_calls: [...(current.tool_calls || []), record] }),
+            document,
+            signal,
+        };
+        const stepAgent = { ...agent, prompt: prompt.text };
+        const { output, latency, firstTokenLatency, provider, model, usage, structuredOutput, validationErrors, repairAttempts, fallbackIndex, ensemble } = agent.ensemble
+            ? await runEnsemble(stepAgent, input, apiKeys, { ...runOptions, pricing: config.pricing, onProgress: progress => update({ ensemble: progress }) })
+            : await runAgent(stepAgent, input, apiKeys, runOptions);
+        update({
+            output,
+            error: undefined,
+            latency,
+            first_token_latency: firstTokenLatency,
+            provider,
+            model,
+            usage,
+            cost: ensemble ? getEnsembleCost(ensemble) : calculateCost(usage, model, config.pricing),
+            structured_output: structuredOutput,
+            validation_errors: validationErrors,
+            repair_attempts: repairAttempts,
+            fallback_index: fallbackIndex,
+            ensemble,
+            awaiting_approval: agent.requires_approval || undefined,
+            timestamp: Date.now(),
+            status: 'completed'
+        });
+        return 'completed';
+    } catch (e) {
+        if (isAbortError(e)) {
+            // Keep whatever streamed before the stop so the user can see how far it got.
+            update({ status: 'cancelled', timestamp: Date.now() });
+        } else {
+            const errorMsg = e instanceof Error ? e.message : String(e);
+            const errorDetails = e instanceof AgentRunError ? e.details : [describeError(e)];
+            if (agent.on_error === 'continue' || agent.on_error === 'fallback') {
+                // The failure is recorded, but dependents run on an empty or fallback output.
+                update({
+                    status: 'error',
+                    error: errorMsg,
+                    error_details: errorDetails,
+                    output: agent.on_error === 'fallback' ? agent.fallback_output || '' : '',
+                    on_error_applied: agent.on_error,
+                    timestamp: Date.now(),
+                });
+                return 'error';
+            }
+            update({ status: 'error', error: errorMsg, error_details: errorDetails, timestamp: Date.now() });
+        }
+        throw e; // re-throw so the scheduler does not run dependents
+    }
+}
+
+// Runs every step whose inputs are ready, in parallel; steps downstream of a failure are not run
+// unless the failed agent's on_error policy is continue or fallback.
+// Throws before running anything when the inputs cannot be resolved.
+export async function runPipeline(ctx: PipelineContext, options: RunPipelineOptions = {}): Promise<void> {
+    const dependencies = buildDependencyMap(ctx.config.agents, ctx.selectedAgentIds);
+    const problems = validateDependencies(dependencies);
+    if (problems.length > 0) throw new Error(problems.join('\n'));
+
+    const signal = options.signal || new AbortController().signal;
+    const runStep = options.runStep || ((agentId: string, stepSignal: AbortSignal) => executeStep(agentId, ctx, stepSignal));
+
+    const started = new Set<string>();
+    // Completed or skipped: dependents may start (a skipped input makes them skip in turn).
+    const completed = new Set<string>();
+    const failed = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+
+    const awaitApproval = (agentId: string) => {
+        if (!ctx.getResults().find(r => r.agent_id === agentId)?.awaiting_approval) return Promise.resolve(true);
+        if (!options.waitForApproval) return Promise.resolve(false);
+        return options.waitForApproval(agentId, signal).then(() => true);
+    };
+
+    (options.reuse || []).forEach(agentId => {
+        started.add(agentId);
+        running.set(agentId, awaitApproval(agentId)
+            .then(approved => { if (approved) completed.add(agentId); })
+            .catch(() => { failed.add(agentId); })
+            .finally(() => { running.delete(agentId); }));
+    });
+
+    while (!signal.aborted) {
+        for (const agentId of ctx.selectedAgentIds) {
+            if (started.has(agentId)) continue;
+            const inputs = dependencies[agentId].filter(input => input !== DOCUMENT_INPUT);
+            if (inputs.some(input => failed.has(input))) {
+                started.add(agentId);
+                failed.add(agentId);
+            } else if (inputs.every(input => completed.has(input))) {
+                started.add(agentId);
+                running.set(agentId, runStep(agentId, signal)
+                    .then(async status => {
+                        if (status === 'completed' && !await awaitApproval(agentId)) return;
+                        // 'error' here means the on_error policy let dependents run.
+                        if (status !== 'pending') completed.add(agentId);
+                    })
+                    .catch(e => {
+                        failed.add(agentId);
+                        if (!isAbortError(e)) console.error(`Agent ${agentId} failed; its dependents will not run.`, e);
+                    })
+                    .finally(() => { running.delete(agentId); }));
+            }
+        }
+        if (running.size === 0) break;
+        await Promise.race(running.values());
+    }
+    await Promise.all(running.values());
+}
@@ -0,0 +1,112 @@
+import type { CompletionRequest, LLMMessage, ProviderAdapter, TokenUsage } from '../../types';
+import { getProviderBaseUrl } from './registry';
+import { readSseEvents } from './sse';
+import { ProviderError, providerErrorFromResponse } from './errors';
+
+// The HTTP status each error type would have had, for errors that arrive inside a stream.
+const STREAM_ERROR_STATUSES: Record<string, number> = { overloaded_error: 529, api_error: 500, rate_limit_error: 429 };
+
+function toAnthropicMessage(message: LLMMessage) {
+    return {
+        role: message.role,
+        content: [
+            ...(message.images || []).map(image => ({
+                type: "image",
+                source: { type: "base64", media_type: image.mimeType, data: image.data }
+            })),
+            { type: "text", text: message.content },
+        ],
+    };
+}
+
+// Anthropic reports cache reads separately from input_tokens; fold them in so prompt_tokens is the full prompt.
+function toTokenUsage(usage: any, outputTokens?: number): TokenUsage {
+    const cached = usage?.cache_read_input_tokens || 0;
+    return {
+        prompt_tokens: (usage?.input_tokens || 0) + (usage?.cache_creation_input_tokens || 0) + cached,
+        completion_tokens: outputTokens ?? usage?.output_tokens ?? 0,
+        cached_tokens: cached || undefined,
+    };
+}
+
+const anthropicHeaders = (apiKey: string) => ({
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": "2023-06-01",
+    "anthropic-dangerous-direct-browser-access": "true"
+});
+
+async function postMessages(request: CompletionRequest, apiKey: string, stream: boolean) {
+    const response = await fetch(`${getProviderBaseUrl('anthropic')}/messages`, {
+        method: "POST",
+        headers: anthropicHeaders(apiKey),
+        body: JSON.stringify({
+            model: request.model,
+            system: request.system,
+            messages: request.messages.map(toAnthropicMessage),
+            temperature: request.temperature,
+            // Anthropic requires max_tokens on every request.
+            max_tokens: request.maxTokens || 4096,
+            stream
+        }),
+        signal: request.signal
+    });
+
+    if (!response.ok) throw await providerErrorFromResponse(response, 'Anthropic');
+    return response;
+}
+
+export const anthropicProvider: ProviderAdapter = {
+    id: 'anthropic',
+    label: 'Anthropic',
+    requiresApiKey: true,
+    defaultModel: 'claude-sonnet-4-5',
+    defaultVisionModel: 'claude-sonnet-4-5',
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+
+    async complete(request, apiKey) {
+        const response = await postMessages(request, apiKey, false);
+        const data = await response.json();
+        const text = (data.content as { type: string; text?: string }[])
+            .filter(block => block.type === 'text')
+            .map(block => block.text)
+            .join('');
+        return { text, usage: toTokenUsage(data.usage) };
+    },
+
+    async *stream(request, apiKey) {
+        const response = await postMessages(request, apiKey, true);
+        let startUsage: any;
+        for await (const { event, data } of readSseEvents(response)) {
+            if (event === 'message_stop') break;
+            if (event === 'error') {
+                // A failure after the response started, e.g. overloaded_error; the partial text is discarded.
+                const error = JSON.parse(data).error;
+                throw new ProviderError(`Anthropic API Error: ${error?.message || error?.type || 'stream error'}`, {
+                    status: STREAM_ERROR_STATUSES[error?.type],
+                    code: error?.type,
+                    retryable: true,
+                });
+            }
+            if (event === 'message_start') {
+                startUsage = JSON.parse(data).message?.usage;
+            } else if (event === 'message_delta') {
+                // message_delta carries the final cumulative output token count.
+                yield { usage: toTokenUsage(startUsage, JSON.parse(data).usage?.output_tokens) };
+            } else if (event === 'content_block_delta') {
+                const delta = JSON.parse(data).delta;
+                if (delta?.type === 'text_delta' && delta.text) yield { text: delta.text as string };
+            }
+        }
+    },
+
+    async listModels(apiKey, signal) {
+        const response = await fetch(`${getProviderBaseUrl('anthropic')}/models?limit=1000`, {
+            headers: anthropicHeaders(apiKey),
+            signal
+        });
+        if (!response.ok) throw await providerErrorFromResponse(response, 'Anthropic');
+        const data = await response.json();
+        return (data.data as { id: string }[]).map(model => model.id);
+    },
+};
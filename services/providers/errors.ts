@@ -0,0 +1,47 @@
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits, server errors and Anthropic's 529 "overloaded".
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+// Error codes that arrive with a retryable status but will never succeed on retry.
+const FATAL_ERROR_CODES = new Set(['insufficient_quota', 'invalid_api_key', 'model_not_found']);
+
+export class ProviderError extends Error {
+    status?: number;
+    code?: string;
+    retryAfterMs?: number;
+    retryable: boolean;
+
+    constructor(message: string, options: { status?: number; code?: string; retryAfterMs?: number; retryable?: boolean } = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.status = options.status;
+        this.code = options.code;
+        this.retryAfterMs = options.retryAfterMs;
+        this.retryable = options.retryable ?? (
+            (options.status === undefined || RETRYABLE_STATUSES.has(options.status)) &&
+            !(options.code && FATAL_ERROR_CODES.has(options.code))
+        );
+    }
+}
+
+// Accepts both `Retry-After` forms (delta-seconds or an HTTP date) plus OpenAI's `retry-after-ms`.
+export function parseRetryAfter(headers: Headers): number | undefined {
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) return Number(retryAfterMs);
+
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) return undefined;
+    if (!isNaN(Number(retryAfter))) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export async function providerErrorFromResponse(response: Response, label: string): Promise<ProviderError> {
+    const errorData = await response.json().catch(() => null);
+    const message = errorData?.error?.message || response.statusText || `HTTP ${response.status}`;
+    const code = errorData?.error?.code ?? errorData?.error?.type;
+    return new ProviderError(`${label} API Error: ${message}`, {
+        status: response.status,
+        code: typeof code === 'string' ? code : undefined,
+        retryAfterMs: parseRetryAfter(response.headers),
+    });
+}
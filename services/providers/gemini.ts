@@ -0,0 +1,146 @@
+import { ApiError, GoogleGenAI } from '@google/genai';
+import type { Content, FunctionCall, GenerateContentResponseUsageMetadata, Part } from '@google/genai';
+import type { CompletionRequest, LLMMessage, ProviderAdapter, TokenUsage, ToolCall } from '../../types';
+import { ProviderError } from './errors';
+
+function toGeminiParts(message: LLMMessage): Part[] {
+    if (message.role === 'tool') {
+        return [{ functionResponse: { id: message.toolCallId, name: message.toolName, response: { result: message.content } } }];
+    }
+    return [
+        ...(message.images || []).map(image => ({
+            inlineData: { mimeType: image.mimeType, data: image.data },
+        })),
+        ...(message.content || !message.toolCalls ? [{ text: message.content }] : []),
+        ...(message.toolCalls || []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.arguments } })),
+    ];
+}
+
+// Consecutive tool results are answered in a single user turn, as Gemini expects.
+function toGeminiContents(messages: LLMMessage[]): Content[] {
+    const contents: Content[] = [];
+    messages.forEach((message, i) => {
+        const parts = toGeminiParts(message);
+        if (message.role === 'tool' && messages[i - 1]?.role === 'tool') {
+            contents[contents.length - 1].parts!.push(...parts);
+        } else {
+            contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+        }
+    });
+    return contents;
+}
+
+// Gemini omits call ids on some models; the position keeps them unique within a turn.
+function toToolCalls(calls: FunctionCall[] | undefined): ToolCall[] | undefined {
+    if (!calls || calls.length === 0) return undefined;
+    return calls.map((call, i) => ({ id: call.id || `call_${i}`, name: call.name || '', arguments: call.args || {} }));
+}
+
+function toGeminiParams(request: CompletionRequest) {
+    return {
+        model: request.model,
+        contents: toGeminiContents(request.messages),
+        config: {
+            systemInstruction: request.system,
+            temperature: request.temperature,
+            maxOutputTokens: request.maxTokens,
+            abortSignal: request.signal,
+            ...(request.tools ? {
+                tools: [{
+                    functionDeclarations: request.tools.map(tool => ({
+                        name: tool.name,
+                        description: tool.description,
+                        parametersJsonSchema: tool.parameters,
+                    })),
+                }],
+            } : {}),
+            ...(request.responseSchema ? {
+                responseMimeType: 'application/json',
+                responseJsonSchema: request.responseSchema,
+            } : {}),
+        }
+    };
+}
+
+function toTokenUsage(metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    return {
+        prompt_tokens: metadata.promptTokenCount || 0,
+        // Thinking tokens are billed as output.
+        completion_tokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+        cached_tokens: metadata.cachedContentTokenCount,
+    };
+}
+
+// The SDK does not expose response headers, so the Retry-After hint is read from the error body's
+// RetryInfo detail instead (e.g. "retryDelay": "30s"); the SDK puts that body in `message`.
+function toProviderError(error: unknown): unknown {
+    if (error instanceof ApiError) {
+        let body: any;
+        try {
+            body = JSON.parse(error.message.slice(error.message.indexOf('{')));
+        } catch {
+            body = undefined;
+        }
+        const retryDelay = (body?.error?.details || []).find((detail: any) => String(detail?.['@type']).endsWith('RetryInfo'))?.retryDelay;
+        const seconds = typeof retryDelay === 'string' ? parseFloat(retryDelay) : NaN;
+        return new ProviderError(`Gemini API Error: ${body?.error?.message || error.message}`, {
+            status: error.status,
+            code: typeof body?.error?.status === 'string' ? body.error.status : undefined,
+            retryAfterMs: isNaN(seconds) ? undefined : seconds * 1000,
+        });
+    }
+    return error;
+}
+
+export const geminiProvider: ProviderAdapter = {
+    id: 'gemini',
+    label: 'Gemini',
+    requiresApiKey: true,
+    defaultModel: 'gemini-2.5-flash',
+    defaultVisionModel: 'gemini-2.5-flash',
+    supportsResponseSchema: true,
+    supportsTools: true,
+
+    async complete(request, apiKey) {
+        const ai = new GoogleGenAI({ apiKey });
+        try {
+            const response = await ai.models.generateContent(toGeminiParams(request));
+            return { text: response.text ?? '', usage: toTokenUsage(response.usageMetadata), toolCalls: toToolCalls(response.functionCalls) };
+        } catch (error) {
+            throw toProviderError(error);
+        }
+    },
+
+    async *stream(request, apiKey) {
+        const ai = new GoogleGenAI({ apiKey });
+        try {
+            const response = await ai.models.generateContentStream(toGeminiParams(request));
+            // Usage metadata is cumulative, so only the last chunk's value is reported.
+            let usage: TokenUsage | undefined;
+            for await (const chunk of response) {
+                usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+                if (chunk.text) yield { text: chunk.text };
+            }
+            if (usage) yield { usage };
+        } catch (error) {
+            throw toProviderError(error);
+        }
+    },
+
+    async listModels(apiKey, signal) {
+        const ai = new GoogleGenAI({ apiKey });
+        try {
+            const models: string[] = [];
+            const pager = await ai.models.list({ config: { pageSize: 100, abortSignal: signal } });
+            for await (const model of pager) {
+                if (model.name && model.supportedActions?.includes('generateContent')) {
+                    models.push(model.name.replace(/^models\//, ''));
+                }
+            }
+            return models;
+        } catch (error) {
+            throw toProviderError(error);
+        }
+    },
+};
@@ -0,0 +1,19 @@
+import { registerProvider } from './registry';
+import { geminiProvider } from './gemini';
+import { openaiProvider, azureOpenAIProvider, openaiCompatibleProvider } from './openaiCompatible';
+import { anthropicProvider } from './anthropic';
+import { localProvider } from './local';
+import { mockProvider } from './mock';
+
+// Registration order is the order providers appear in the UI and the order 'auto' tries them.
+registerProvider(geminiProvider);
+registerProvider(openaiProvider);
+registerProvider(anthropicProvider);
+registerProvider(azureOpenAIProvider);
+registerProvider(openaiCompatibleProvider);
+registerProvider(localProvider);
+registerProvider(mockProvider);
+
+export * from './registry';
+export { createOpenAICompatibleProvider } from './openaiCompatible';
+export { ProviderError } from './errors';
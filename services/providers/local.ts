@@ -0,0 +1,29 @@
+import type { ProviderAdapter } from '../../types';
+
+// Offline stand-in: answers instantly without a network call, so the UI and
+// pipeline wiring can be exercised without any API key.
+export const localProvider: ProviderAdapter = {
+    id: 'local',
+    label: 'Local Stand-in',
+    requiresApiKey: false,
+    defaultModel: 'echo',
+    defaultVisionModel: 'echo',
+    supportsTools: true,
+
+    async complete(request) {
+        request.signal?.throwIfAborted();
+        const lastMessage = request.messages[request.messages.length - 1];
+        const content = lastMessage?.content || '';
+        const imageCount = lastMessage?.images?.length || 0;
+        const excerpt = content.length > 500 ? `${content.substring(0, 500)}...` : content;
+        return {
+            text: `[local stand-in: ${request.model}] Received ${content.length} characters` +
+                (imageCount > 0 ? ` and ${imageCount} image(s)` : '') +
+                `.\n\n${excerpt}`
+        };
+    },
+
+    async listModels() {
+        return ['echo'];
+    },
+};
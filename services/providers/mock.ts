@@ -0,0 +1,44 @@
+import type { CompletionRequest, ProviderAdapter } from '../../types';
+import { findFixture, getFixtureModels, hashPrompt } from '../fixtureService';
+import { ProviderError } from './errors';
+
+function lookup(request: CompletionRequest) {
+    request.signal?.throwIfAborted();
+    const fixture = findFixture(request);
+    if (!fixture) {
+        throw new ProviderError(
+            `Mock: no recorded fixture for agent "${request.agentId || 'unknown'}", model "${request.model}" (prompt hash ${hashPrompt(request)}). Record this call with a real provider first.`,
+            { retryable: false }
+        );
+    }
+    return fixture.response;
+}
+
+// Replays responses captured in record mode, so pipelines run with no keys and no network.
+export const mockProvider: ProviderAdapter = {
+    id: 'mock',
+    label: 'Mock (Fixtures)',
+    requiresApiKey: false,
+    defaultModel: 'mock',
+    defaultVisionModel: 'mock',
+    supportsTools: true,
+
+    async complete(request) {
+        return lookup(request);
+    },
+
+    async *stream(request) {
+        const { text, usage } = lookup(request);
+        // Replay word by word so streaming UI behaves as it does live.
+        for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+            request.signal?.throwIfAborted();
+            yield { text: piece };
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        if (usage) yield { usage };
+    },
+
+    async listModels() {
+        return Array.from(new Set(['mock', ...getFixtureModels()]));
+    },
+};
@@ -0,0 +1,198 @@
+import type { CompletionRequest, LLMMessage, ProviderAdapter, TokenUsage, ToolCall } from '../../types';
+import { getProviderBaseUrl } from './registry';
+import { readSseEvents } from './sse';
+import { providerErrorFromResponse } from './errors';
+
+interface OpenAICompatibleOptions {
+    id: string;
+    label: string;
+    defaultBaseUrl: string;
+    defaultModel: string;
+    defaultVisionModel?: string;
+    requiresApiKey?: boolean;
+    supportsResponseSchema?: boolean;
+    // Azure OpenAI addresses deployments by URL and authenticates with an `api-key` header.
+    azureApiVersion?: string;
+}
+
+function toOpenAIMessage(message: LLMMessage) {
+    if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.toolCalls) {
+        return {
+            role: message.role,
+            content: message.content || null,
+            tool_calls: message.toolCalls.map(call => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+        };
+    }
+    if (!message.images || message.images.length === 0) {
+        return { role: message.role, content: message.content };
+    }
+    return {
+        role: message.role,
+        content: [
+            { type: "text", text: message.content },
+            ...message.images.map(image => ({
+                type: "image_url",
+                image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+            })),
+        ],
+    };
+}
+
+function toTokenUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        prompt_tokens: usage.prompt_tokens || 0,
+        completion_tokens: usage.completion_tokens || 0,
+        cached_tokens: usage.prompt_tokens_details?.cached_tokens,
+    };
+}
+
+// Arguments arrive as a JSON string; one that does not parse reaches the tool as {} and fails its checks there.
+function parseArguments(text: string): Record<string, unknown> {
+    try {
+        return JSON.parse(text || '{}');
+    } catch {
+        return {};
+    }
+}
+
+function toToolCalls(calls: any[] | undefined): ToolCall[] | undefined {
+    if (!calls || calls.length === 0) return undefined;
+    return calls.map(call => ({ id: call.id, name: call.function.name, arguments: parseArguments(call.function.arguments) }));
+}
+
+function buildBody(request: CompletionRequest) {
+    return {
+        model: request.model,
+        messages: [
+            ...(request.system ? [{ role: "system", content: request.system }] : []),
+            ...request.messages.map(toOpenAIMessage),
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.tools ? {
+            tools: request.tools.map(tool => ({
+                type: "function",
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+            }))
+        } : {}),
+        ...(request.responseSchema ? {
+            // Non-strict: strict mode would force every property to be required.
+            response_format: {
+                type: "json_schema",
+                json_schema: { name: "agent_output", schema: request.responseSchema, strict: false }
+            }
+        } : {}),
+    };
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ProviderAdapter {
+    const { id, label, azureApiVersion } = options;
+
+    const endpointFor = (model: string) => {
+        const baseUrl = getProviderBaseUrl(id);
+        if (!baseUrl) throw new Error(`${label} endpoint URL is not configured.`);
+        return azureApiVersion
+            ? `${baseUrl}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${azureApiVersion}`
+            : `${baseUrl}/chat/completions`;
+    };
+
+    const headersFor = (apiKey: string): Record<string, string> => {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (apiKey) {
+            if (azureApiVersion) headers["api-key"] = apiKey;
+            else headers["Authorization"] = `Bearer ${apiKey}`;
+        }
+        return headers;
+    };
+
+    const post = async (request: CompletionRequest, apiKey: string, stream: boolean) => {
+        const response = await fetch(endpointFor(request.model), {
+            method: "POST",
+            headers: headersFor(apiKey),
+            body: JSON.stringify({
+                ...buildBody(request),
+                ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+            }),
+            signal: request.signal
+        });
+
+        if (!response.ok) throw await providerErrorFromResponse(response, label);
+        return response;
+    };
+
+    // Azure's data-plane API does not list deployments, so it has no model list.
+    const listModels = azureApiVersion ? undefined : async (apiKey: string, signal?: AbortSignal) => {
+        const baseUrl = getProviderBaseUrl(id);
+        if (!baseUrl) throw new Error(`${label} endpoint URL is not configured.`);
+        const response = await fetch(`${baseUrl}/models`, { headers: headersFor(apiKey), signal });
+        if (!response.ok) throw await providerErrorFromResponse(response, label);
+        const data = await response.json();
+        return (data.data as { id: string }[]).map(model => model.id);
+    };
+
+    return {
+        id,
+        label,
+        requiresApiKey: options.requiresApiKey ?? true,
+        defaultModel: options.defaultModel,
+        defaultVisionModel: options.defaultVisionModel,
+        defaultBaseUrl: options.defaultBaseUrl,
+        supportsResponseSchema: options.supportsResponseSchema ?? true,
+        supportsTools: true,
+
+        async complete(request, apiKey) {
+            const response = await post(request, apiKey, false);
+            const data = await response.json();
+            const message = data.choices[0].message;
+            return { text: message.content ?? '', usage: toTokenUsage(data.usage), toolCalls: toToolCalls(message.tool_calls) };
+        },
+
+        async *stream(request, apiKey) {
+            const response = await post(request, apiKey, true);
+            for await (const { data } of readSseEvents(response)) {
+                if (data === '[DONE]') break;
+                const chunk = JSON.parse(data);
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) yield { text: delta as string };
+                // With include_usage, the final chunk carries usage and no choices.
+                if (chunk.usage) yield { usage: toTokenUsage(chunk.usage) };
+            }
+        },
+
+        listModels,
+    };
+}
+
+export const openaiProvider = createOpenAICompatibleProvider({
+    id: 'openai',
+    label: 'OpenAI',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    defaultVisionModel: 'gpt-4o',
+});
+
+export const azureOpenAIProvider = createOpenAICompatibleProvider({
+    id: 'azure_openai',
+    label: 'Azure OpenAI',
+    defaultBaseUrl: '',
+    defaultModel: 'gpt-4o-mini',
+    defaultVisionModel: 'gpt-4o',
+    azureApiVersion: '2024-06-01',
+});
+
+// Default points at Ollama; vLLM (:8000/v1) and LM Studio (:1234/v1) work by changing the URL.
+export const openaiCompatibleProvider = createOpenAICompatibleProvider({
+    id: 'openai_compatible',
+    label: 'OpenAI-Compatible',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    requiresApiKey: false,
+});
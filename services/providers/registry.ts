@@ -0,0 +1,51 @@
+import type { ApiKeys, ProviderAdapter } from '../../types';
+
+const providers = new Map<string, ProviderAdapter>();
+const baseUrlOverrides = new Map<string, string>();
+
+export function registerProvider(adapter: ProviderAdapter) {
+    providers.set(adapter.id, adapter);
+}
+
+export function listProviders(): ProviderAdapter[] {
+    return Array.from(providers.values());
+}
+
+export function getProvider(id: string): ProviderAdapter {
+    const adapter = providers.get(id);
+    if (!adapter) throw new Error(`Unsupported provider: ${id}`);
+    return adapter;
+}
+
+export function setProviderBaseUrl(id: string, baseUrl: string) {
+    if (baseUrl) {
+        baseUrlOverrides.set(id, baseUrl);
+    } else {
+        baseUrlOverrides.delete(id);
+    }
+}
+
+export function getProviderBaseUrl(id: string): string {
+    const url = baseUrlOverrides.get(id) ?? providers.get(id)?.defaultBaseUrl ?? '';
+    return url.replace(/\/+$/, '');
+}
+
+// 'auto' picks the first registered provider that has a key configured.
+export function resolveProviderId(requested: string, apiKeys: ApiKeys): string {
+    if (requested !== 'auto') return requested;
+    const match = listProviders().find(p => p.requiresApiKey && apiKeys[p.id]);
+    if (!match) throw new Error("No provider with a configured API key is available for 'auto'.");
+    return match.id;
+}
+
+export function getApiKey(adapter: ProviderAdapter, apiKeys: ApiKeys): string {
+    const apiKey = apiKeys[adapter.id] || '';
+    if (adapter.requiresApiKey && !apiKey) {
+        throw new Error(`${adapter.label} API key is not configured.`);
+    }
+    return apiKey;
+}
+
+export function createEmptyApiKeys(): ApiKeys {
+    return Object.fromEntries(listProviders().map(p => [p.id, '']));
+}
@@ -0,0 +1,37 @@
+interface SseEvent {
+    event?: string;
+    data: string;
+}
+
+// Minimal server-sent events reader for streaming chat completions over fetch.
+export async function* readSseEvents(response: Response): AsyncGenerator<SseEvent, void, unknown> {
+    if (!response.body) throw new Error('Streaming response has no body.');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: string | undefined;
+    let dataLines: string[] = [];
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) > -1) {
+            const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+            buffer = buffer.slice(newlineIndex + 1);
+
+            if (line === '') {
+                if (dataLines.length > 0) yield { event, data: dataLines.join('\n') };
+                event = undefined;
+                dataLines = [];
+            } else if (line.startsWith('event:')) {
+                event = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).trimStart());
+            }
+        }
+    }
+    if (dataLines.length > 0) yield { event, data: dataLines.join('\n') };
+}
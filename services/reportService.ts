@@ -0,0 +1,250 @@
+import type { ComparisonResult, ComparisonSlot, EnsembleResult, OcrJob, PipelineResult } from '../types';
+import { formatCost } from './costService';
+import { getMemberLabel, getMemberTag } from './ensembleService';
+
+const CSV_COLUMNS = [
+    'step', 'agent_id', 'agent_name', 'status', 'provider', 'model', 'timestamp', 'latency', 'first_token_latency',
+    'prompt_tokens', 'completion_tokens', 'cached_tokens', 'cost', 'attempts', 'error', 'skip_reason', 'validation_errors', 'input', 'output',
+    'structured_output', 'original_output', 'edited_by', 'edited_at', 'approved_by', 'approved_at', 'tool_calls',
+    'ensemble_models', 'ensemble_disagreements',
+];
+
+// "Category: A=YES, B=NO -> YES" for each category the ensemble members did not agree on.
+function describeDisagreements(ensemble: EnsembleResult): string[] {
+    return ensemble.votes.filter(vote => !vote.unanimous).map(vote =>
+        `${vote.category}: ${vote.votes.map((v, i) => `${String.fromCharCode(65 + i)}=${v || '-'}`).join(', ')} -> ${vote.verdict}${vote.tied ? ' (tie)' : ''}`);
+}
+
+export const toCsvCell = (value: unknown) => `"${(value === undefined || value === null ? '' : String(value)).replace(/"/g, '""')}"`;
+
+// Cancelled steps are reported with their partial output so a stopped run is still auditable;
+// skipped steps are listed with the reason their condition excluded them.
+export function getReportedResults(results: PipelineResult[]): PipelineResult[] {
+    return results.filter(r => r.status === 'completed' || r.status === 'cancelled' || r.status === 'skipped');
+}
+
+export function getFailedResults(results: PipelineResult[]): PipelineResult[] {
+    return results.filter(r => r.status === 'error');
+}
+
+function getStatusSummary(results: PipelineResult[]) {
+    return {
+        completed: results.filter(r => r.status === 'completed').length,
+        cancelled: results.filter(r => r.status === 'cancelled').length,
+        error: results.filter(r => r.status === 'error').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        pending: results.filter(r => r.status === 'pending').length,
+    };
+}
+
+function getCostSummary(results: PipelineResult[], ocrJobs: OcrJob[]) {
+    return {
+        run_cost: getReportedResults(results).reduce((sum, r) => sum + (r.cost || 0), 0),
+        ocr_cost: ocrJobs.reduce((sum, job) => sum + (job.cost || 0), 0),
+    };
+}
+
+export function generateMarkdownReport(results: PipelineResult[], ocrJobs: OcrJob[], title = 'AI Agent Pipeline Report'): string {
+    const statusSummary = getStatusSummary(results);
+    const costSummary = getCostSummary(results, ocrJobs);
+    let report = `# ${title}\n\n**Generated:** ${new Date().toISOString()}\n\n`;
+    report += `**Steps:** ${statusSummary.completed} completed, ${statusSummary.cancelled} cancelled, ${statusSummary.error} failed, ${statusSummary.skipped} skipped, ${statusSummary.pending} not run\n`;
+    report += `**Run Cost:** ${formatCost(costSummary.run_cost)}\n`;
+    if (ocrJobs.length > 0) {
+        report += `**OCR Cost:** ${formatCost(costSummary.ocr_cost)}\n\n`;
+        ocrJobs.forEach(job => {
+            report += `- OCR \`${job.file_name}\`: ${job.pages} pages via ${job.provider}/${job.model}, ${job.usage.prompt_tokens} prompt + ${job.usage.completion_tokens} completion tokens, ${formatCost(job.cost)}\n`;
+        });
+    }
+    const failures = getFailedResults(results);
+    if (failures.length > 0) {
+        report += `\n## Failed Steps\n\n`;
+        failures.forEach(result => {
+            report += `- **Step ${result.step}: ${result.agent_name}**${result.on_error_applied ? ` (on_error: ${result.on_error_applied})` : ''}: ${result.error}\n`;
+            (result.error_details || []).forEach(detail => {
+                report += `  - \`${detail}\`\n`;
+            });
+        });
+    }
+    report += `\n---\n\n`;
+    getReportedResults(results).forEach(result => {
+        if (result.status === 'skipped') {
+            report += `## Step ${result.step}: ${result.agent_name} (skipped)\n\n`;
+            report += `**Agent ID:** \`${result.agent_id}\`\n`;
+            report += `**Reason:** ${result.skip_reason}\n\n---\n\n`;
+            return;
+        }
+        report += `## Step ${result.step}: ${result.agent_name}${result.status === 'cancelled' ? ' (cancelled, partial output)' : ''}\n\n`;
+        report += `**Agent ID:** \`${result.agent_id}\`\n`;
+        report += `**Timestamp:** ${new Date(result.timestamp).toLocaleString()}\n`;
+        if (result.first_token_latency !== undefined) {
+            report += `**Time to First Token:** ${result.first_token_latency.toFixed(2)}s\n`;
+        }
+        report += `**Latency:** ${result.latency?.toFixed(2)}s\n`;
+        if (result.usage) {
+            report += `**Tokens:** ${result.usage.prompt_tokens} prompt, ${result.usage.completion_tokens} completion${result.usage.cached_tokens ? `, ${result.usage.cached_tokens} cached` : ''}\n`;
+        }
+        if (result.cost !== undefined) {
+            report += `**Cost:** ${formatCost(result.cost)} (${result.model})\n`;
+        }
+        if (result.fallback_index) {
+            report += `**Answered By:** ${result.provider}/${result.model} (fallback #${result.fallback_index})\n`;
+        }
+        if (result.chunk_progress) {
+            report += `**Chunks:** ${result.chunk_progress.total}\n`;
+        }
+        if (result.edit) {
+            report += `**Edited By:** ${result.edit.by} at ${new Date(result.edit.at).toLocaleString()}\n`;
+        }
+        if (result.approval) {
+            report += `**Approved By:** ${result.approval.by} at ${new Date(result.approval.at).toLocaleString()}\n`;
+        } else if (result.awaiting_approval) {
+            report += `**Approval:** pending\n`;
+        }
+        if (result.ensemble && result.attempts?.some(at => !at.succeeded)) {
+            report += `**Failed Attempts:** ${result.attempts.filter(at => !at.succeeded).map(at => `${at.ensemble_member} #${at.attempt}: ${at.error}`).join('; ')}\n`;
+        } else if (!result.ensemble && result.attempts && result.attempts.length > 1) {
+            report += `**Attempts:** ${result.attempts.length} (${result.attempts.length - 1} retried)\n`;
+        }
+        report += `\n`;
+        if (result.tool_calls && result.tool_calls.length > 0) {
+            report += `**Tool Calls:**\n${result.tool_calls.map(call => `- ${call.ensemble_member ? `${call.ensemble_member}: ` : ''}\`${call.name}(${JSON.stringify(call.arguments)})\`${call.error ? ` failed: ${call.result}` : ''}`).join('\n')}\n\n`;
+        }
+        if (result.validation_errors && result.validation_errors.length > 0) {
+            report += `**Schema Issues:**\n${result.validation_errors.map(e => `- ${e}`).join('\n')}\n\n`;
+        }
+        if (result.ensemble) {
+            const ensemble = result.ensemble;
+            report += `**Ensemble:** ${ensemble.merge === 'judge' ? `judged by ${ensemble.judge?.provider}/${ensemble.judge?.model}` : 'majority vote'} over ${ensemble.members.length} models\n`;
+            report += `${ensemble.members.map((m, i) => `- ${getMemberTag(i, m)} (T=${m.temperature}): ${m.status === 'completed'
+                ? `${m.latency?.toFixed(2)}s, ${m.usage ? m.usage.prompt_tokens + m.usage.completion_tokens : '?'} tokens, ${formatCost(m.cost)}`
+                : m.error || m.status}`).join('\n')}\n`;
+            const disagreements = describeDisagreements(ensemble);
+            report += `**Disagreements:** ${disagreements.length > 0 ? disagreements.join('; ') : 'none'}\n\n`;
+        }
+        if (result.variants && result.variants.length > 0) {
+            report += `**Model Comparison:**\n${result.variants.map(v => {
+                const stats = v.status === 'completed'
+                    ? `${v.latency?.toFixed(2)}s, ${v.usage ? v.usage.prompt_tokens + v.usage.completion_tokens : '?'} tokens, ${formatCost(v.cost)}`
+                    : v.error || v.status;
+                return `- ${v.model.provider}/${v.model.name} (T=${v.model.temperature}): ${stats}${v.id === result.preferred_variant ? ' **preferred**' : ''}`;
+            }).join('\n')}\n\n`;
+        }
+        const fence = result.structured_output !== undefined ? '```json' : '```';
+        report += `### Output${result.edit ? ' (reviewer-edited)' : ''}\n\n${fence}\n${result.output}\n\`\`\`\n\n`;
+        if (result.original_output !== undefined) {
+            report += `### Original Model Output\n\n${fence}\n${result.original_output}\n\`\`\`\n\n`;
+        }
+        result.ensemble?.members.filter(m => m.output).forEach(m => {
+            report += `### Ensemble Output ${getMemberTag(result.ensemble!.members.indexOf(m), m)}\n\n${fence}\n${m.output}\n\`\`\`\n\n`;
+        });
+        report += `---\n\n`;
+    });
+    return report;
+}
+
+export function generateJsonReport(results: PipelineResult[], ocrJobs: OcrJob[]): string {
+    return JSON.stringify({
+        reportGenerated: new Date().toISOString(),
+        summary: { ...getStatusSummary(results), ...getCostSummary(results, ocrJobs) },
+        results: getReportedResults(results),
+        failures: getFailedResults(results).map(r => ({
+            step: r.step,
+            agent_id: r.agent_id,
+            error: r.error,
+            error_details: r.error_details,
+            on_error_applied: r.on_error_applied,
+        })),
+        ocr_jobs: ocrJobs
+    }, null, 2);
+}
+
+export function generateCsvReport(results: PipelineResult[], ocrJobs: OcrJob[]): string {
+    const reported = getReportedResults(results);
+    if (reported.length === 0) return "";
+
+    const headers = CSV_COLUMNS.join(',');
+    const rows = reported.map(row => [
+        row.step, row.agent_id, row.agent_name, row.status, row.provider, row.model, row.timestamp, row.latency, row.first_token_latency,
+        row.usage?.prompt_tokens, row.usage?.completion_tokens, row.usage?.cached_tokens, row.cost, row.attempts?.length, row.error,
+        row.skip_reason, row.validation_errors?.join('; '), row.input, row.output,
+        row.structured_output !== undefined ? JSON.stringify(row.structured_output) : '',
+        row.original_output, row.edit?.by, row.edit && new Date(row.edit.at).toISOString(),
+        row.approval?.by, row.approval && new Date(row.approval.at).toISOString(),
+        row.tool_calls?.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join('; '),
+        row.ensemble?.members.map(getMemberLabel).join('; '),
+        row.ensemble && describeDisagreements(row.ensemble).join('; '),
+    ].map(toCsvCell).join(','));
+    // OCR jobs are appended as their own rows so their cost is in the same sheet.
+    const ocrRows = ocrJobs.map(job => [
+        '', `ocr:${job.file_name}`, `OCR (${job.pages} pages)`, 'completed', job.provider, job.model, job.timestamp, '', '',
+        job.usage.prompt_tokens, job.usage.completion_tokens, job.usage.cached_tokens, job.cost, '', '', '', '', '', '', '', '', '', '', '', '', '', '', '',
+    ].map(toCsvCell).join(','));
+
+    return [headers, ...rows, ...ocrRows].join('\n');
+}
+
+const toTableCell = (value: string | undefined) => (value || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>');
+
+// The equivalence table first, then each slot's extraction outputs that the comparator read.
+export function generateComparisonMarkdown(comparison: ComparisonResult, slots: ComparisonSlot[]): string {
+    let report = `# Substantial Equivalence Comparison\n\n**Generated:** ${new Date().toISOString()}\n`;
+    report += `**Subject:** ${comparison.columns[0]}\n**Predicates:** ${comparison.columns.slice(1).join(', ')}\n`;
+    if (comparison.cost !== undefined) report += `**Comparator Cost:** ${formatCost(comparison.cost)} (${comparison.model})\n`;
+    if (comparison.error) report += `**Error:** ${comparison.error}\n`;
+    if (comparison.validation_errors?.length) report += `**Validation Errors:** ${comparison.validation_errors.join('; ')}\n`;
+
+    report += `\n| Category | ${comparison.columns.map(toTableCell).join(' | ')} | Assessment | Notes |\n`;
+    report += `|${' --- |'.repeat(comparison.columns.length + 3)}\n`;
+    comparison.rows.forEach(row => {
+        const cells = [row.category, row.subject, ...comparison.columns.slice(1).map((_, i) => row.predicates[i]), row.assessment, row.notes];
+        report += `| ${cells.map(toTableCell).join(' | ')} |\n`;
+    });
+    if (comparison.conclusion) report += `\n**Conclusion:** ${comparison.conclusion}\n`;
+
+    slots.forEach((slot, index) => {
+        report += `\n---\n\n## ${slot.role === 'subject' ? 'Subject' : 'Predicate'}: ${comparison.columns[index] ?? slot.label}\n\n`;
+        report += `**Files:** ${slot.file_names.join(', ') || 'none'}\n\n`;
+        getReportedResults(slot.results).forEach(result => {
+            report += `### ${result.agent_name}${result.status === 'completed' ? '' : ` (${result.status})`}\n\n${result.output || result.skip_reason || ''}\n\n`;
+        });
+    });
+    return report;
+}
+
+export function generateComparisonJson(comparison: ComparisonResult, slots: ComparisonSlot[]): string {
+    return JSON.stringify({
+        reportGenerated: new Date().toISOString(),
+        comparison,
+        slots: slots.map((slot, index) => ({
+            role: slot.role,
+            label: comparison.columns[index] ?? slot.label,
+            file_names: slot.file_names,
+            status: slot.status,
+            results: getReportedResults(slot.results),
+            failures: getFailedResults(slot.results).map(r => ({ step: r.step, agent_id: r.agent_id, error: r.error })),
+            ocr_jobs: slot.ocr_jobs,
+        })),
+    }, null, 2);
+}
+
+// One row per category with a column per device, as the table is shown in the app.
+export function generateComparisonCsv(comparison: ComparisonResult): string {
+    const headers = ['category', ...comparison.columns, 'assessment', 'notes'].map(toCsvCell).join(',');
+    const rows = comparison.rows.map(row => [
+        row.category, row.subject, ...comparison.columns.slice(1).map((_, i) => row.predicates[i]), row.assessment, row.notes,
+    ].map(toCsvCell).join(','));
+    return [headers, ...rows].join('\n');
+}
+
+export function downloadFile(content: string | Blob, fileName: string, mimeType: string) {
+    const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,85 @@
+import type { ProviderAttempt, RetryPolicy } from '../types';
+import { ProviderError } from './providers';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    max_attempts: 3,
+    initial_delay_ms: 1000,
+    max_delay_ms: 30000,
+    backoff_multiplier: 2,
+    jitter: 0.25,
+};
+
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+    return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+export function isRetryableError(error: unknown): boolean {
+    if (error instanceof ProviderError) return error.retryable;
+    // fetch rejects with a TypeError when the network itself fails.
+    return error instanceof TypeError;
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number, error: unknown): number {
+    if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, policy.max_delay_ms);
+    }
+    const base = Math.min(policy.initial_delay_ms * Math.pow(policy.backoff_multiplier, attempt - 1), policy.max_delay_ms);
+    const jitter = base * policy.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + jitter));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+interface RetryOptions {
+    provider: string;
+    model?: string;
+    signal?: AbortSignal;
+    onAttempt?: (attempt: ProviderAttempt) => void;
+}
+
+export async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    policy: RetryPolicy,
+    { provider, model, signal, onAttempt }: RetryOptions
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        const timestamp = Date.now();
+        try {
+            const value = await fn(attempt);
+            onAttempt?.({ attempt, provider, model, timestamp, succeeded: true });
+            return value;
+        } catch (error) {
+            if (signal?.aborted) throw error;
+
+            const retryable = isRetryableError(error);
+            const willRetry = retryable && attempt < policy.max_attempts;
+            const delay = willRetry ? backoffDelay(policy, attempt, error) : undefined;
+            onAttempt?.({
+                attempt,
+                provider,
+                model,
+                timestamp,
+                succeeded: false,
+                error: error instanceof Error ? error.message : String(error),
+                http_status: error instanceof ProviderError ? error.status : undefined,
+                retryable,
+                delay_ms: delay,
+            });
+            if (!willRetry) throw error;
+            await sleep(delay!, signal);
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import type { JsonSchema } from '../types';
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+// Returns human-readable violations; an empty list means the value conforms.
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const errors: string[] = [];
+
+    if (schema.type && !matchesType(value, schema.type)) {
+        return [`${path}: expected ${schema.type}, got ${typeOf(value)}`];
+    }
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match /${schema.pattern}/`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+        if (schema.items) {
+            value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        (schema.required || []).forEach(key => {
+            if (!(key in record)) errors.push(`${path}.${key}: is required`);
+        });
+        Object.entries(record).forEach(([key, child]) => {
+            const childSchema = schema.properties?.[key];
+            if (childSchema) {
+                errors.push(...validateSchema(child, childSchema, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateSchema(child, schema.additionalProperties, `${path}.${key}`));
+            }
+        });
+    }
+
+    return errors;
+}
+
+// Models often wrap JSON in markdown fences or add a sentence around it; take the outermost JSON value.
+export function parseJsonOutput(text: string): { value?: unknown; error?: string } {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    let candidate = (fenced ? fenced[1] : text).trim();
+    const start = candidate.search(/[[{]/);
+    if (start > 0) candidate = candidate.slice(start);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (end > -1) candidate = candidate.slice(0, end + 1);
+
+    try {
+        return { value: JSON.parse(candidate) };
+    } catch (e) {
+        return { error: `Output is not valid JSON: ${e instanceof Error ? e.message : String(e)}` };
+    }
+}
+
+export function describeSchema(schema: JsonSchema): string {
+    return `Respond with only a JSON value (no markdown fences, no commentary) that conforms to this JSON Schema:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+export function buildRepairPrompt(errors: string[], schema: JsonSchema): string {
+    return `Your previous response did not conform to the required output format:\n- ${errors.join('\n- ')}\n\n${describeSchema(schema)}`;
+}
@@ -0,0 +1,114 @@
+import type { AgentsConfig, PipelineResult, RunVariable } from '../types';
+
+// {{document}}, {{steps.<id>.output|status}}, {{steps.<id>.structured[.<field>...]}}, {{vars.<name>}}
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export interface TemplateContext {
+    document: string;
+    results: PipelineResult[];
+    variables: Record<string, string>;
+}
+
+export function extractVariables(template: string): string[] {
+    return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1])));
+}
+
+// Agent ids whose output the template reads; these are dependencies just like `inputs`.
+export function getReferencedSteps(template: string): string[] {
+    return Array.from(new Set(extractVariables(template)
+        .filter(name => name.startsWith('steps.'))
+        .map(name => name.split('.')[1])
+        .filter(Boolean)));
+}
+
+// Shared with condition expressions: returns the problem with a variable path, if any.
+export function checkVariablePath(name: string, config: AgentsConfig): string | undefined {
+    const [root, id, field, ...rest] = name.split('.');
+    if (root === 'document') return id === undefined ? undefined : 'document has no fields';
+    if (root === 'vars') {
+        if (!id) return 'expected vars.<name>';
+        return (config.variables || []).some(v => v.name === id) ? undefined : `run variable "${id}" is not declared under variables`;
+    }
+    if (root === 'steps') {
+        const agent = config.agents.find(a => a.id === id);
+        if (!agent) return `no agent with id "${id}"`;
+        if (field === 'output' || field === 'status') return rest.length === 0 ? undefined : `${field} has no fields`;
+        if (field !== 'structured') return 'expected steps.<id>.output, steps.<id>.status or steps.<id>.structured';
+        if (!agent.output_schema) return `agent "${id}" has no output_schema`;
+        const properties = agent.output_schema.properties;
+        if (rest.length > 0 && properties && !(rest[0] in properties)) return `"${rest[0]}" is not a property of ${id}'s output_schema`;
+        return undefined;
+    }
+    return 'unknown variable';
+}
+
+// Problems in every agent prompt, e.g. to report right after agents.yaml is loaded.
+export function validateTemplates(config: AgentsConfig): string[] {
+    return config.agents.flatMap(agent => extractVariables(agent.prompt || '')
+        .map(name => ({ name, problem: checkVariablePath(name, config) }))
+        .map(({ name, problem }) => ({
+            name,
+            // The prompt goes out with every chunk, so the whole document would bypass the chunking.
+            problem: problem || (name === 'document' && (agent.chunking?.strategy ?? 'none') !== 'none'
+                ? 'not allowed with chunking; the agent receives the document in chunks as its input'
+                : undefined),
+        }))
+        .filter(({ problem }) => problem)
+        .map(({ name, problem }) => `${agent.id}: {{${name}}}: ${problem}`));
+}
+
+// Declared variables with the user's values, falling back to defaults; optional ones may be empty.
+export function resolveRunVariables(declared: RunVariable[] | undefined, values: Record<string, string>): Record<string, string> {
+    return Object.fromEntries((declared || []).map(v => [v.name, values[v.name] ?? v.default ?? '']));
+}
+
+export function getMissingRunVariables(declared: RunVariable[] | undefined, values: Record<string, string>): RunVariable[] {
+    const resolved = resolveRunVariables(declared, values);
+    return (declared || []).filter(v => v.required && !resolved[v.name].trim());
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) {
+        return value.map(item => `- ${item}`).join('\n');
+    }
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    return String(value);
+}
+
+// The raw value at a variable path; undefined when it is not available yet.
+export function resolveValue(name: string, context: TemplateContext): unknown {
+    const [root, id, field, ...path] = name.split('.');
+    if (root === 'document') return context.document || undefined;
+    if (root === 'vars') return id in context.variables ? context.variables[id] : undefined;
+    if (root === 'steps') {
+        const result = context.results.find(r => r.agent_id === id);
+        if (field === 'status') return result?.status;
+        // As with inputs, a step failed under on_error continue/fallback provides its empty or fallback output.
+        if (result?.on_error_applied) return field === 'output' ? result.output : '';
+        if (!result || result.status !== 'completed') return undefined;
+        if (field === 'output') return result.output;
+        let value: unknown = result.structured_output;
+        for (const key of path) {
+            value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+        }
+        // The step has finished, so a field it left out (an optional one) is empty rather than pending.
+        return value ?? '';
+    }
+    return undefined;
+}
+
+// Unresolved variables are left in place and listed in `missing`.
+export function renderTemplate(template: string, context: TemplateContext): { text: string; missing: string[] } {
+    const missing: string[] = [];
+    const text = template.replace(VARIABLE_PATTERN, (match, name: string) => {
+        const value = resolveValue(name, context);
+        if (value === undefined) {
+            if (!missing.includes(name)) missing.push(name);
+            return match;
+        }
+        return formatValue(value);
+    });
+    return { text, missing };
+}
@@ -0,0 +1,259 @@
+import type { Agent, AgentsConfig, ToolCall, ToolCallRecord, ToolDefinition } from '../types';
+import { FILE_SEPARATOR, PAGE_SEPARATOR } from '../constants';
+
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 20;
+const SNIPPET_RADIUS = 160;
+const MAX_SECTIONS = 200;
+
+interface BuiltInTool {
+    definition: ToolDefinition;
+    run: (args: Record<string, unknown>, document: string) => string;
+}
+
+// Pages as parsingService emits them; each uploaded file starts on a new page.
+function splitPages(document: string): string[] {
+    return document.split(PAGE_SEPARATOR).flatMap(page => page.split(FILE_SEPARATOR));
+}
+
+function searchDocument(args: Record<string, unknown>, document: string): string {
+    const query = String(args.query ?? '').trim();
+    if (!query) throw new Error('query is required');
+    const limit = Math.min(Math.max(1, Number(args.max_results) || DEFAULT_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+    const terms = Array.from(new Set(query.toLowerCase().split(/\W+/).filter(term => term.length > 1)));
+    if (terms.length === 0) throw new Error(`query "${query}" has no searchable words`);
+
+    const hits: { page: number; start: number; end: number; score: number; text: string }[] = [];
+    splitPages(document).forEach((text, index) => {
+        const lower = text.toLowerCase();
+        terms.forEach(term => {
+            for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+                const start = Math.max(0, at - SNIPPET_RADIUS);
+                const end = Math.min(text.length, at + term.length + SNIPPET_RADIUS);
+                // Passages are ranked by how many distinct query words they contain.
+                const window = lower.slice(start, end);
+                hits.push({ page: index + 1, start, end, score: terms.filter(t => window.includes(t)).length, text });
+            }
+        });
+    });
+
+    const results: typeof hits = [];
+    hits.sort((a, b) => b.score - a.score || a.page - b.page || a.start - b.start).forEach(hit => {
+        const overlaps = results.some(r => r.page === hit.page && hit.start < r.end && r.start < hit.end);
+        if (!overlaps && results.length < limit) results.push(hit);
+    });
+    if (results.length === 0) return `No matches for "${query}".`;
+    return results.map(r => {
+        const snippet = r.text.slice(r.start, r.end).replace(/\s+/g, ' ').trim();
+        return `Page ${r.page} (${r.score}/${terms.length} words): ${r.start > 0 ? '…' : ''}${snippet}${r.end < r.text.length ? '…' : ''}`;
+    }).join('\n\n');
+}
+
+function getPage(args: Record<string, unknown>, document: string): string {
+    const pages = splitPages(document);
+    const page = Number(args.page);
+    if (!Number.isInteger(page) || page < 1 || page > pages.length) {
+        throw new Error(`page must be a whole number from 1 to ${pages.length}`);
+    }
+    return `Page ${page} of ${pages.length}:\n\n${pages[page - 1].trim()}`;
+}
+
+// Markdown headings, numbered headings ("4.2 Bench Testing") and short all-caps lines.
+function isHeading(line: string): boolean {
+    if (/^#{1,6}\s+\S/.test(line)) return true;
+    if (line.length > 100) return false;
+    if (/^\d+(\.\d+)*\.?\s+[A-Z]/.test(line)) return true;
+    return line.length >= 4 && /[A-Z]{3}/.test(line) && line === line.toUpperCase() && !/[.;,]$/.test(line);
+}
+
+function listSections(_args: Record<string, unknown>, document: string): string {
+    const sections = splitPages(document).flatMap((text, index) =>
+        text.split('\n').map(line => line.trim()).filter(isHeading).map(line => `Page ${index + 1}: ${line.replace(/^#+\s*/, '')}`)
+    );
+    if (sections.length === 0) return 'No section headings found.';
+    const listed = sections.slice(0, MAX_SECTIONS).join('\n');
+    return sections.length > MAX_SECTIONS ? `${listed}\n… ${sections.length - MAX_SECTIONS} more` : listed;
+}
+
+// Numbers, + - * / ^, parentheses and sqrt/abs/round/ln/log10; nothing is passed to eval.
+function evaluateExpression(expression: string): number {
+    const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+\d*|[-+*/^()%,]/gi) || [];
+    if (tokens.join('') !== expression.replace(/\s+/g, '')) throw new Error(`cannot parse expression "${expression}"`);
+    const functions: Record<string, (x: number) => number> = { sqrt: Math.sqrt, abs: Math.abs, round: Math.round, ln: Math.log, log10: Math.log10 };
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const expect = (token: string) => {
+        if (tokens[pos] !== token) throw new Error(`expected "${token}" in "${expression}"`);
+        pos++;
+    };
+
+    const primary = (): number => {
+        const token = tokens[pos++];
+        if (token === undefined) throw new Error(`unexpected end of "${expression}"`);
+        if (token === '(') {
+            const value = sum();
+            expect(')');
+            return value;
+        }
+        if (token === '-') return -power();
+        if (token === '+') return power();
+        if (/^[a-z]/i.test(token)) {
+            const fn = functions[token.toLowerCase()];
+            if (!fn) throw new Error(`unknown function "${token}"`);
+            expect('(');
+            const value = sum();
+            expect(')');
+            return fn(value);
+        }
+        const value = Number(token);
+        if (Number.isNaN(value)) throw new Error(`unexpected "${token}" in "${expression}"`);
+        return value;
+    };
+    const power = (): number => {
+        const base = primary();
+        if (peek() !== '^') return base;
+        pos++;
+        return base ** power();
+    };
+    const product = (): number => {
+        let value = power();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const op = tokens[pos++];
+            const right = power();
+            value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+    const sum = (): number => {
+        let value = product();
+        while (peek() === '+' || peek() === '-') {
+            value = tokens[pos++] === '+' ? value + product() : value - product();
+        }
+        return value;
+    };
+
+    const result = sum();
+    if (pos < tokens.length) throw new Error(`unexpected "${tokens[pos]}" in "${expression}"`);
+    return result;
+}
+
+const STATISTICS: Record<string, (values: number[]) => number> = {
+    count: values => values.length,
+    sum: values => values.reduce((a, b) => a + b, 0),
+    mean: values => values.reduce((a, b) => a + b, 0) / values.length,
+    median: values => {
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    },
+    min: values => Math.min(...values),
+    max: values => Math.max(...values),
+    // Sample variance and standard deviation (n - 1).
+    variance: values => {
+        const mean = STATISTICS.mean(values);
+        return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    },
+    stdev: values => Math.sqrt(STATISTICS.variance(values)),
+};
+
+function calculate(args: Record<string, unknown>): string {
+    if (args.expression !== undefined) {
+        const value = evaluateExpression(String(args.expression));
+        if (!Number.isFinite(value)) throw new Error(`${args.expression} is not a finite number`);
+        return `${args.expression} = ${value}`;
+    }
+    const operation = String(args.operation ?? '');
+    const stat = STATISTICS[operation];
+    if (!stat) throw new Error(`set expression, or operation to one of ${Object.keys(STATISTICS).join(', ')}`);
+    const values = Array.isArray(args.values) ? args.values.map(Number) : [];
+    if (values.length === 0 || values.some(Number.isNaN)) throw new Error('values must be a non-empty list of numbers');
+    if ((operation === 'variance' || operation === 'stdev') && values.length < 2) throw new Error(`${operation} needs at least two values`);
+    return `${operation}(${values.join(', ')}) = ${stat(values)}`;
+}
+
+const BUILT_IN_TOOLS: Record<string, BuiltInTool> = {
+    search_document: {
+        definition: {
+            name: 'search_document',
+            description: 'Keyword search over the source document. Returns the best-matching passages with their page numbers.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string', description: 'Words or a phrase to look for' },
+                    max_results: { type: 'integer', description: `Passages to return (default ${DEFAULT_SEARCH_RESULTS}, at most ${MAX_SEARCH_RESULTS})` },
+                },
+                required: ['query'],
+            },
+        },
+        run: searchDocument,
+    },
+    get_page: {
+        definition: {
+            name: 'get_page',
+            description: 'Returns the full text of one page of the source document.',
+            parameters: {
+                type: 'object',
+                properties: { page: { type: 'integer', description: 'Page number, starting at 1' } },
+                required: ['page'],
+            },
+        },
+        run: getPage,
+    },
+    list_sections: {
+        definition: {
+            name: 'list_sections',
+            description: 'Lists the section headings of the source document with the page each starts on.',
+            parameters: { type: 'object', properties: {} },
+        },
+        run: listSections,
+    },
+    calculate: {
+        definition: {
+            name: 'calculate',
+            description: 'Evaluates an arithmetic expression (+ - * / ^ %, parentheses, sqrt, abs, round, ln, log10), or a statistic over a list of numbers.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    expression: { type: 'string', description: 'e.g. "(12 / 340) * 100"' },
+                    operation: { type: 'string', enum: Object.keys(STATISTICS), description: 'Statistic to compute over values' },
+                    values: { type: 'array', items: { type: 'number' } },
+                },
+            },
+        },
+        run: calculate,
+    },
+};
+
+export const BUILT_IN_TOOL_NAMES = Object.keys(BUILT_IN_TOOLS);
+
+export function getToolDefinitions(names: string[]): ToolDefinition[] {
+    return names.map(name => {
+        const tool = BUILT_IN_TOOLS[name];
+        if (!tool) throw new Error(`Unknown tool "${name}"; available: ${BUILT_IN_TOOL_NAMES.join(', ')}`);
+        return tool.definition;
+    });
+}
+
+// Failures are returned to the model as the tool's result so it can correct the call.
+export function runTool(call: ToolCall, document: string): ToolCallRecord {
+    const record = { name: call.name, arguments: call.arguments, timestamp: Date.now() };
+    try {
+        const tool = BUILT_IN_TOOLS[call.name];
+        if (!tool) throw new Error(`unknown tool "${call.name}"`);
+        return { ...record, result: tool.run(call.arguments || {}, document) };
+    } catch (e) {
+        return { ...record, result: `Error: ${e instanceof Error ? e.message : String(e)}`, error: true };
+    }
+}
+
+function validateAgentTools(agent: Agent): string[] {
+    const problems = (agent.tools || [])
+        .filter(name => !BUILT_IN_TOOLS[name])
+        .map(name => `${agent.id}: unknown tool "${name}" (available: ${BUILT_IN_TOOL_NAMES.join(', ')})`);
+    if (agent.max_tool_rounds !== undefined && !(agent.max_tool_rounds >= 1)) problems.push(`${agent.id}: max_tool_rounds must be at least 1`);
+    return problems;
+}
+
+export function validateTools(config: AgentsConfig): string[] {
+    return config.agents.flatMap(validateAgentTools);
+}
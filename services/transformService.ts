@@ -0,0 +1,141 @@
+import type { Agent, AgentsConfig, InputTransform } from '../types';
+import { parseJsonOutput } from './schemaService';
+
+const OPERATIONS = ['json_path', 'regex', 'section', 'truncate', 'concat'] as const;
+
+type Operation = typeof OPERATIONS[number];
+
+export function getTransformOperation(transform: InputTransform): Operation | undefined {
+    return OPERATIONS.find(op => transform[op] !== undefined);
+}
+
+// `a.b[0].c`, `$.a.b`, and `[*]`/`*` to map over every item of an array.
+function parseJsonPath(path: string): string[] {
+    return path
+        .replace(/^\$\.?/, '')
+        .replace(/\[(\*|\d+)\]/g, '.$1')
+        .replace(/\[["']([^"']+)["']\]/g, '.$1')
+        .split('.')
+        .filter(Boolean);
+}
+
+function selectPath(value: unknown, segments: string[]): unknown {
+    if (segments.length === 0) return value;
+    const [head, ...rest] = segments;
+    if (head === '*') {
+        const items = Array.isArray(value) ? value : value && typeof value === 'object' ? Object.values(value) : [];
+        return items.map(item => selectPath(item, rest)).filter(item => item !== undefined);
+    }
+    if (value === null || typeof value !== 'object') return undefined;
+    return selectPath((value as Record<string, unknown>)[head], rest);
+}
+
+// Markdown headings are levels 1-6; models often write a heading as a bold line (7) or a `Label:` line (8) instead.
+function headingOf(line: string): { level: number; title: string } | undefined {
+    const markdown = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (markdown) return { level: markdown[1].length, title: markdown[2] };
+    const bold = /^\s*(\*\*|__)(.+?)\1\s*:?\s*$/.exec(line);
+    if (bold) return { level: 7, title: bold[2] };
+    const label = /^([^\s*+>|#-].*):\s*$/.exec(line);
+    return label ? { level: 8, title: label[1] } : undefined;
+}
+
+function selectSection(text: string, heading: string): string | undefined {
+    const lines = text.split('\n');
+    const wanted = heading.trim().toLowerCase();
+    const start = lines.findIndex(line => {
+        const match = headingOf(line);
+        return !!match && match.title.replace(/[*_`:]/g, '').trim().toLowerCase().includes(wanted);
+    });
+    if (start === -1) return undefined;
+    const level = headingOf(lines[start])!.level;
+    const end = lines.findIndex((line, i) => {
+        if (i <= start) return false;
+        const match = headingOf(line);
+        return !!match && match.level <= level;
+    });
+    return lines.slice(start, end === -1 ? undefined : end).join('\n').trim();
+}
+
+// Throws with a readable message when the transform cannot produce anything from `text`.
+export function applyTransform(text: string, transform: InputTransform): string {
+    switch (getTransformOperation(transform)) {
+        case 'json_path': {
+            const parsed = parseJsonOutput(text);
+            if (parsed.error) throw new Error(`json_path ${transform.json_path}: ${parsed.error}`);
+            const value = selectPath(parsed.value, parseJsonPath(transform.json_path!));
+            if (value === undefined) throw new Error(`json_path ${transform.json_path} matched nothing`);
+            return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+        }
+        case 'regex': {
+            const flags = (transform.flags ?? 'i').replace('g', '');
+            const matches = Array.from(text.matchAll(new RegExp(transform.regex!, `${flags}g`)));
+            if (matches.length === 0) throw new Error(`regex ${transform.regex} matched nothing`);
+            return matches.map(match => match[1] ?? match[0]).join('\n');
+        }
+        case 'section': {
+            const section = selectSection(text, transform.section!);
+            if (section === undefined) throw new Error(`section "${transform.section}" not found`);
+            return section;
+        }
+        case 'truncate': {
+            const limit = transform.truncate!;
+            return text.length > limit ? `${text.slice(0, limit)}\n[... truncated ${text.length - limit} characters]` : text;
+        }
+        default:
+            return text;
+    }
+}
+
+// Per-source transforms first, then the sources are joined, then the remaining transforms apply.
+export function transformInput(
+    sections: { source: string; title: string; text: string }[],
+    transforms: InputTransform[] = []
+): { input: string; errors: string[] } {
+    const errors: string[] = [];
+    const apply = (text: string, list: InputTransform[]) => list.reduce((current, transform) => {
+        try {
+            return applyTransform(current, transform);
+        } catch (e) {
+            errors.push(e instanceof Error ? e.message : String(e));
+            return current;
+        }
+    }, text);
+
+    const transformed = sections.map(section => ({
+        ...section,
+        text: apply(section.text, transforms.filter(t => t.source === section.source)),
+    }));
+    const combinedTransforms = transforms.filter(t => t.source === undefined);
+    const concat = combinedTransforms.find(t => t.concat !== undefined);
+    const joined = transformed.length === 1 ? transformed[0].text
+        : concat ? transformed.map(s => s.text).join(concat.concat)
+        : transformed.map(s => `## ${s.title}\n\n${s.text}`).join('\n\n---\n\n');
+    return { input: apply(joined, combinedTransforms.filter(t => t.concat === undefined)), errors };
+}
+
+function validateAgentTransforms(agent: Agent): string[] {
+    return (agent.input_transforms || []).flatMap((transform, i) => {
+        const label = `${agent.id}: input_transforms[${i}]`;
+        const operations = OPERATIONS.filter(op => transform[op] !== undefined);
+        if (operations.length !== 1) return [`${label}: set exactly one of ${OPERATIONS.join(', ')}`];
+        const problems: string[] = [];
+        if (transform.source && agent.inputs && !agent.inputs.includes(transform.source)) {
+            problems.push(`${label}: source "${transform.source}" is not one of the agent's inputs`);
+        }
+        if (transform.regex !== undefined) {
+            try {
+                new RegExp(transform.regex, transform.flags ?? 'i');
+            } catch (e) {
+                problems.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        }
+        if (transform.truncate !== undefined && !(transform.truncate > 0)) problems.push(`${label}: truncate must be a positive number`);
+        if (transform.concat !== undefined && transform.source) problems.push(`${label}: concat applies to the combined input and cannot have a source`);
+        return problems;
+    });
+}
+
+export function validateTransforms(config: AgentsConfig): string[] {
+    return config.agents.flatMap(validateAgentTransforms);
+}
@@ -0,0 +1,58 @@
+import type { Agent, PipelineResult, StepVariant } from '../types';
+import { executeStep, PipelineContext } from './pipelineService';
+
+export const MAX_STEP_VARIANTS = 4;
+
+export function createVariantId(): string {
+    return `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The agent's own model first, then its fallbacks at the same sampling settings.
+export function getDefaultVariantModels(agent: Agent): Agent['model'][] {
+    const fallbacks = (agent.fallbacks || []).map(target => ({ ...agent.model, provider: target.provider, name: target.name }));
+    const models = [agent.model, ...fallbacks].slice(0, MAX_STEP_VARIANTS);
+    return models.length > 1 ? models : [agent.model, { ...agent.model }];
+}
+
+function toVariant(id: string, model: Agent['model'], result: PipelineResult): StepVariant {
+    return {
+        id,
+        model,
+        status: result.status === 'completed' || result.status === 'cancelled' ? result.status : result.status === 'running' ? 'running' : 'error',
+        output: result.output,
+        structured_output: result.structured_output,
+        validation_errors: result.validation_errors,
+        latency: result.latency,
+        first_token_latency: result.first_token_latency,
+        usage: result.usage,
+        cost: result.cost,
+        error: result.error || result.skip_reason,
+        timestamp: result.timestamp,
+    };
+}
+
+// Runs the step exactly as Execute Step would, but on `model` alone (no fallbacks or ensemble), and reports
+// to onUpdate instead of publishing, so the step's own result is left alone.
+export async function runStepVariant(
+    agentId: string,
+    variantId: string,
+    model: Agent['model'],
+    ctx: PipelineContext,
+    onUpdate: (variant: StepVariant) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    const config = {
+        ...ctx.config,
+        agents: ctx.config.agents.map(agent => agent.id === agentId ? { ...agent, model, fallbacks: undefined, on_error: undefined, ensemble: undefined } : agent),
+    };
+    try {
+        await executeStep(agentId, { ...ctx, config, publish: result => onUpdate(toVariant(variantId, model, result)) }, signal);
+    } catch {
+        // The failure or cancellation was already reported through onUpdate.
+    }
+}
+
+// Copies the variant's model and sampling settings onto the agent, keeping everything else.
+export function promoteVariant(agent: Agent, variant: StepVariant): Agent {
+    return { ...agent, model: { ...agent.model, ...variant.model } };
+}
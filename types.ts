@@ -30,6 +30,8 @@ export interface Translation {
     output: string;
     modify: string;
     next: string;
+    approve: string;
+    reviewer: string;
     completion_rate: string;
     tokens: string;
     latency: string;
@@ -41,9 +43,200 @@ export interface Translation {
   zh: Translation['en'];
 }
 
-export interface ApiKeys {
-    gemini: string;
-    openai: string;
+// Keyed by provider id; populated from whatever providers are registered.
+export type ApiKeys = Record<string, string>;
+
+export type ProviderHealthStatus = 'OK' | 'Error' | 'Not Configured' | 'Checking';
+
+export interface ProviderHealth {
+    status: ProviderHealthStatus;
+    latency_ms?: number;
+    // Models the key can use; undefined when the provider cannot list them.
+    models?: string[];
+    error?: string;
+    checked_at?: number;
+}
+
+export interface ProviderImage {
+    mimeType: string;
+    data: string; // base64, without the data URL prefix
+}
+
+// The subset of JSON Schema that agents' output_schema may use.
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: unknown[];
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+}
+
+export interface LLMMessage {
+    role: 'user' | 'assistant' | 'tool';
+    content: string;
+    images?: ProviderImage[];
+    // Set on assistant turns that asked for tools.
+    toolCalls?: ToolCall[];
+    // Set on 'tool' turns: the call this message answers.
+    toolCallId?: string;
+    toolName?: string;
+}
+
+// A function the model may call; `parameters` describes its arguments.
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, unknown>;
+}
+
+// One executed tool call, as logged on the step's result.
+export interface ToolCallRecord {
+    name: string;
+    arguments: Record<string, unknown>;
+    result: string;
+    error?: boolean;
+    timestamp: number;
+    // Set on ensemble steps: which member (or the judge) made the call.
+    ensemble_member?: string;
+}
+
+export interface CompletionRequest {
+    model: string;
+    system?: string;
+    messages: LLMMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+    // Ask for JSON conforming to this schema, natively where the provider supports it.
+    responseSchema?: JsonSchema;
+    // Who is asking: the agent id, or 'ocr' / 'chat'. Used to key recorded fixtures.
+    agentId?: string;
+    tools?: ToolDefinition[];
+}
+
+export interface TokenUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    cached_tokens?: number; // subset of prompt_tokens served from the provider's cache
+}
+
+export interface CompletionResponse {
+    text: string;
+    usage?: TokenUsage;
+    // Present when the model asked for tools instead of (or along with) answering.
+    toolCalls?: ToolCall[];
+}
+
+export interface CompletionChunk {
+    text?: string;
+    usage?: TokenUsage; // usually only on the final chunk
+}
+
+export interface ProviderAdapter {
+    id: string;
+    label: string;
+    requiresApiKey: boolean;
+    defaultModel: string;
+    // Set for providers that accept image input (used by LLM OCR).
+    defaultVisionModel?: string;
+    // Set for providers whose endpoint the user may override (OpenAI-compatible servers, Azure).
+    defaultBaseUrl?: string;
+    // True when `responseSchema` is enforced by the API; otherwise it is only described in the prompt.
+    supportsResponseSchema?: boolean;
+    // True when `tools` are passed to the model and `toolCalls` are returned.
+    supportsTools?: boolean;
+    complete(request: CompletionRequest, apiKey: string): Promise<CompletionResponse>;
+    // Yields text deltas (and usage, when reported). Providers without it fall back to `complete`.
+    stream?(request: CompletionRequest, apiKey: string): AsyncGenerator<CompletionChunk, void, unknown>;
+    // Cheap authenticated call used as a health probe. Without it the probe sends a one-token completion.
+    listModels?(apiKey: string, signal?: AbortSignal): Promise<string[]>;
+}
+
+export interface RetryPolicy {
+    max_attempts: number;
+    initial_delay_ms: number;
+    max_delay_ms: number;
+    backoff_multiplier: number;
+    jitter: number; // 0-1, fraction of each delay that is randomised
+}
+
+export interface ProviderAttempt {
+    attempt: number;
+    provider: string;
+    model?: string;
+    timestamp: number;
+    succeeded: boolean;
+    error?: string;
+    http_status?: number;
+    retryable?: boolean;
+    delay_ms?: number; // wait before the next attempt
+    ensemble_member?: string; // set on ensemble steps, as on ToolCallRecord
+}
+
+// USD per million tokens.
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cached_input?: number;
+}
+
+export interface ModelTarget {
+    provider: string;
+    name: string;
+    // Abandon an attempt that has not finished within this time and move on.
+    timeout_ms?: number;
+}
+
+export interface ChunkingConfig {
+    strategy: 'none' | 'map-reduce' | 'refine';
+    // Defaults to what fits in the smallest context window of the model and its fallbacks, after the prompt and max_tokens.
+    max_chunk_tokens?: number;
+    // Pages repeated from the end of one chunk at the start of the next (default 1).
+    overlap_pages?: number;
+    // map-reduce only: replaces the default instructions for merging the per-chunk outputs.
+    reduce_prompt?: string;
+    // refine only: replaces the default instructions for folding each chunk into the running answer.
+    refine_prompt?: string;
+}
+
+// Runs the agent on several models and merges their answers into one output.
+export interface EnsembleConfig {
+    // Each member runs the agent's prompt; unset settings come from the agent's model. At least two.
+    models: (ModelTarget & { temperature?: number; max_tokens?: number })[];
+    // 'majority' votes on the [YES]/[NO] category lines; 'judge' has `judge` reconcile the answers.
+    merge: 'majority' | 'judge';
+    // Categories to vote on; defaults to every category any member marked.
+    categories?: string[];
+    // The verdict when a category's votes are tied (default NO).
+    tie_breaker?: 'YES' | 'NO';
+    // Members that must answer for the step to succeed (default: more than half).
+    min_successful?: number;
+    judge?: {
+        model: Agent['model'];
+        // Replaces the default reconciling instructions; the task, input and answers are appended.
+        prompt?: string;
+    };
+}
+
+export interface ChunkProgress {
+    phase: 'map' | 'reduce' | 'refine';
+    completed: number;
+    total: number;
 }
 
 export interface Agent {
@@ -52,12 +245,45 @@ export interface Agent {
     description: string;
     enabled: boolean;
     model: {
-        provider: 'gemini' | 'openai' | 'auto';
+        provider: string; // a registered provider id, or 'auto'
         name: string;
         temperature: number;
         max_tokens: number;
+        timeout_ms?: number;
     };
+    // Tried in order when the primary model fails or times out.
+    fallbacks?: ModelTarget[];
+    // Sources this agent consumes: 'document' and/or other agent ids. Defaults to the previous step.
+    inputs?: string[];
+    // Applied in order before the input is sent; see InputTransform.
+    input_transforms?: InputTransform[];
+    // Run only when this expression holds against earlier results (see conditionService); otherwise skipped.
+    when?: string;
+    // Execute All waits for a reviewer to approve this step's output before its dependents run.
+    requires_approval?: boolean;
+    // What Execute All does when this step fails: 'stop' (default) does not run its dependents;
+    // 'continue' runs them with an empty output; 'fallback' runs them with `fallback_output`.
+    on_error?: 'stop' | 'continue' | 'fallback';
+    fallback_output?: string;
+    // May reference {{document}}, {{steps.<id>.output}}, {{steps.<id>.structured.<field>}} and {{vars.<name>}}.
     prompt: string;
+    retry?: Partial<RetryPolicy>;
+    output_schema?: JsonSchema;
+    // Re-prompts allowed when the output is not valid JSON for output_schema (default 2).
+    output_repair_attempts?: number;
+    // Applied only when the input is larger than one chunk.
+    chunking?: ChunkingConfig;
+    // Built-in tools the model may call (see toolService), e.g. search_document, get_page.
+    tools?: string[];
+    // Model turns allowed to request tools before it must answer (default 8).
+    max_tool_rounds?: number;
+    ensemble?: EnsembleConfig;
+}
+
+// Who performed a human review action on a step, and when.
+export interface ReviewRecord {
+    by: string;
+    at: number;
 }
 
 export interface PipelineResult {
@@ -68,9 +294,257 @@ export interface PipelineResult {
     output: string;
     timestamp: number;
     latency?: number;
-    status: 'pending' | 'completed' | 'error';
+    first_token_latency?: number;
+    status: 'pending' | 'running' | 'completed' | 'error' | 'cancelled' | 'skipped';
+    error?: string;
+    skip_reason?: string;
+    provider?: string;
+    model?: string;
+    attempts?: ProviderAttempt[];
+    usage?: TokenUsage;
+    cost?: number; // USD, from the price table; undefined when the model has no price
+    structured_output?: unknown; // parsed output, for agents with output_schema
+    validation_errors?: string[]; // remaining schema violations after repair attempts
+    repair_attempts?: number;
+    chunk_progress?: ChunkProgress; // set when the input was split into chunks
+    fallback_index?: number; // 0 when the primary model answered, n for the n-th fallback
+    tool_calls?: ToolCallRecord[]; // tools the model called, in order
+    original_output?: string; // the model's output, kept when a reviewer has edited `output`
+    edit?: ReviewRecord;
+    approval?: ReviewRecord;
+    awaiting_approval?: boolean;
+    // Every failure behind `error`, one line per model tried, with HTTP status and provider error code.
+    error_details?: string[];
+    // Set on a failed step whose on_error policy let its dependents run anyway.
+    on_error_applied?: 'continue' | 'fallback';
+    // Set for ensemble agents: every member's raw answer and how they were merged into `output`.
+    ensemble?: EnsembleResult;
+    // A/B runs of this step on other models; they do not replace `output`.
+    variants?: StepVariant[];
+    preferred_variant?: string; // StepVariant id
+}
+
+// One model/temperature setting tried on a step's input, shown side by side with the others.
+export interface StepVariant {
+    id: string;
+    model: Agent['model'];
+    status: 'running' | 'completed' | 'error' | 'cancelled';
+    output: string;
+    structured_output?: unknown;
+    validation_errors?: string[];
+    latency?: number;
+    first_token_latency?: number;
+    usage?: TokenUsage;
+    cost?: number;
+    error?: string;
+    timestamp: number;
+}
+
+export interface EnsembleMemberResult {
+    provider: string;
+    model: string;
+    temperature: number;
+    status: 'running' | 'completed' | 'error';
+    output: string;
+    structured_output?: unknown;
+    validation_errors?: string[];
+    latency?: number;
+    usage?: TokenUsage;
+    cost?: number;
+    error?: string;
+}
+
+// How the members marked one category; `votes` follows the member order, undefined where a member
+// did not mark it.
+export interface EnsembleVote {
+    category: string;
+    votes: ('YES' | 'NO' | undefined)[];
+    verdict: 'YES' | 'NO';
+    unanimous: boolean;
+    tied?: boolean;
+}
+
+export interface EnsembleResult {
+    merge: EnsembleConfig['merge'];
+    members: EnsembleMemberResult[];
+    votes: EnsembleVote[];
+    // The judge's own answer, before it became the step output.
+    judge?: { provider: string; model: string; latency: number; usage?: TokenUsage; cost?: number };
+}
+
+// One step of an agent's input processing. Set exactly one operation; with `source` it applies to
+// that input only, otherwise to the combined input.
+export interface InputTransform {
+    source?: string;
+    json_path?: string; // e.g. adverse_events, items[0].name, items[*].name
+    regex?: string; // keeps capture group 1 (or the whole match) of every match
+    flags?: string; // regex flags, default 'i'
+    section?: string; // heading text (markdown, a bold line or a "Label:" line); keeps that heading and its content
+    truncate?: number; // max characters
+    concat?: string; // joins the inputs with this separator instead of "## Output of ..." headings
+}
+
+// A value the user supplies before a run, referenced in prompts as {{vars.<name>}}.
+export interface RunVariable {
+    name: string;
+    label?: string;
+    description?: string;
+    required?: boolean;
+    default?: string;
+}
+
+// Any agent setting except its id; `model` is merged field by field.
+export type AgentOverrides = Partial<Omit<Agent, 'id' | 'model'>> & { model?: Partial<Agent['model']> };
+
+// An agent id, or an agent id with settings that apply only within this pipeline.
+export type PipelineStepDefinition = string | ({ agent: string } & AgentOverrides);
+
+// A named, shareable selection of agents: step order, per-step overrides and run variable values.
+export interface PipelineDefinition {
+    id: string;
+    name: string;
+    description?: string;
+    steps: PipelineStepDefinition[];
+    variables?: Record<string, string>;
+}
+
+// The comparison stage: `agents` run on every document slot, then one model call compares
+// the slots' outputs category by category.
+export interface ComparatorConfig {
+    name?: string;
+    agents?: string[];
+    categories?: string[];
+    // Run variable set to each slot's label while that slot's agents run (e.g. device_name).
+    slot_variable?: string;
+    model: Agent['model'];
+    fallbacks?: ModelTarget[];
+    retry?: Partial<RetryPolicy>;
+    prompt: string;
+}
+
+export type ComparisonSlotRole = 'subject' | 'predicate';
+
+export type ComparisonSlotStatus = 'empty' | 'parsing' | 'ready' | 'running' | 'completed' | 'error' | 'cancelled';
+
+// One document in a comparison: the subject device or a predicate.
+export interface ComparisonSlot {
+    id: string;
+    role: ComparisonSlotRole;
+    label: string;
+    file_names: string[];
+    document: string;
+    results: PipelineResult[];
+    ocr_jobs: OcrJob[];
+    status: ComparisonSlotStatus;
+    progress_text?: string;
+    error?: string;
+}
+
+export type EquivalenceAssessment = 'same' | 'similar' | 'different' | 'not_provided';
+
+export interface ComparisonRow {
+    category: string;
+    subject: string;
+    // One entry per predicate, in slot order.
+    predicates: string[];
+    assessment: EquivalenceAssessment;
+    notes?: string;
+}
+
+export interface ComparisonResult {
+    status: 'running' | 'completed' | 'error' | 'cancelled';
+    // Slot labels: the subject first, then each predicate.
+    columns: string[];
+    rows: ComparisonRow[];
+    conclusion?: string;
+    output: string; // the comparator's raw output
     error?: string;
     provider?: string;
+    model?: string;
+    usage?: TokenUsage;
+    cost?: number;
+    latency?: number;
+    validation_errors?: string[];
+    timestamp: number;
+}
+
+// Checks on an eval case's output. `contains` and `not_contains` ignore case; `json_equals` reads
+// a dotted path from the structured output (or the output parsed as JSON); `category` matches a
+// "<category> ... [YES]" / "[NO]" line as the compliance checker writes them.
+export type EvalAssertion =
+    | { type: 'contains' | 'not_contains'; value: string }
+    | { type: 'equals'; value: string }
+    | { type: 'regex'; pattern: string; flags?: string }
+    | { type: 'json_equals'; path: string; value: unknown }
+    | { type: 'category'; category: string; expected: 'YES' | 'NO' };
+
+// An LLM grades the output against the rubric from 1 to 5; the case fails below `pass_score` (default 4).
+export interface EvalJudge {
+    rubric: string;
+    model?: Agent['model'];
+    pass_score?: number;
+}
+
+// A golden document and what one agent should produce from it. The agent's upstream steps run first.
+export interface EvalCase {
+    id: string;
+    name?: string;
+    agent: string;
+    document?: string;
+    // Read relative to agents.yaml by the CLI; the app needs `document` inline.
+    document_file?: string;
+    variables?: Record<string, string>;
+    // A reference answer shown to the judge; use an `equals` assertion for an exact match.
+    expected_output?: string;
+    assertions?: EvalAssertion[];
+    judge?: EvalJudge;
+}
+
+export interface EvalSuite {
+    // Used by cases whose judge does not name a model.
+    judge_model?: Agent['model'];
+    cases: EvalCase[];
+}
+
+export interface AgentsConfig {
+    version: number;
+    agents: Agent[];
+    variables?: RunVariable[];
+    pipelines?: PipelineDefinition[];
+    comparator?: ComparatorConfig;
+    evals?: EvalSuite;
+    // Overrides/extends DEFAULT_MODEL_PRICES, keyed by model name or name prefix.
+    pricing?: Record<string, ModelPrice>;
+}
+
+export interface OcrJob {
+    file_name: string;
+    provider: string;
+    model: string;
+    pages: number;
+    usage: TokenUsage;
+    cost?: number;
+    timestamp: number;
+}
+
+export interface OcrSettings {
+    method: 'standard' | 'advanced';
+    provider: string;
+    model: string;
+}
+
+export interface Fixture {
+    agent_id: string;
+    model: string;
+    prompt_hash: string;
+    recorded_provider: string;
+    recorded_at: number;
+    response: CompletionResponse;
+}
+
+export interface FixtureFile {
+    version: number;
+    fixtures: Fixture[];
 }
 
 export interface Tab {
@@ -83,3 +557,75 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
 }
+
+export interface RunSummary {
+    steps: number;
+    completed: number;
+    error: number;
+    cancelled: number;
+    skipped: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    cost: number;
+    latency: number;
+}
+
+// A saved pipeline run: enough to reopen it in the Pipeline/Reports tabs or compare it with another.
+export interface RunRecord {
+    id: string;
+    started_at: number;
+    finished_at?: number;
+    document: string;
+    document_hash: string; // SHA-256 of `document`
+    agents_config: AgentsConfig;
+    selected_agent_ids: string[];
+    run_variables: Record<string, string>;
+    results: PipelineResult[];
+    ocr_jobs: OcrJob[];
+    summary: RunSummary;
+}
+
+export type BatchJobStatus = 'queued' | 'parsing' | 'running' | 'completed' | 'awaiting_approval' | 'error' | 'cancelled';
+
+// One uploaded file in the batch queue, parsed and run through the pipeline on its own.
+export interface BatchJob {
+    id: string;
+    file_name: string;
+    status: BatchJobStatus;
+    progress_text?: string;
+    document?: string;
+    results: PipelineResult[];
+    ocr_jobs: OcrJob[];
+    run_id?: string; // saved RunRecord, once the job finishes
+    error?: string;
+    started_at?: number;
+    finished_at?: number;
+}
+
+export interface EvalCheck {
+    label: string;
+    passed: boolean;
+    detail?: string;
+}
+
+export interface EvalCaseResult {
+    case_id: string;
+    case_name: string;
+    agent_id: string;
+    // Hash of the agent's prompt, model and output settings; results group by it across runs.
+    prompt_version: string;
+    passed: boolean;
+    checks: EvalCheck[];
+    output: string;
+    judge?: { score: number; reasoning: string };
+    error?: string;
+    latency?: number;
+    cost?: number;
+}
+
+export interface EvalRun {
+    id: string;
+    started_at: number;
+    finished_at?: number;
+    results: EvalCaseResult[];
+}